@@ -4,6 +4,17 @@ export const config = {
   // Server
   port: parseInt(process.env.PORT || '3000', 10),
 
+  // Logging (LOG_FORMAT=json for one JSON object per line)
+  // debug, info, warn or error (any case); anything else falls back to info
+  logLevel: process.env.LOG_LEVEL || 'info',
+  logFormat: (process.env.LOG_FORMAT || 'text') as 'text' | 'json',
+
+  // Tracing (none | otlp = collector at otlpTracesEndpoint | console | file = JSON lines at traceFile)
+  traceExporter: (process.env.TRACE_EXPORTER || 'none') as 'none' | 'otlp' | 'console' | 'file',
+  otlpTracesEndpoint: process.env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT || 'http://localhost:4318/v1/traces',
+  traceFile: process.env.TRACE_FILE || './data/traces.jsonl',
+  serviceName: process.env.OTEL_SERVICE_NAME || 'railway-image-worker',
+
   // Supabase
   supabaseUrl: process.env.SUPABASE_URL || 'https://gxhynkhxwuroedvlzucm.supabase.co',
   supabaseServiceKey: process.env.SUPABASE_SERVICE_ROLE_KEY || '',
@@ -12,25 +23,106 @@ export const config = {
   qstashCurrentSigningKey: process.env.QSTASH_CURRENT_SIGNING_KEY || '',
   qstashNextSigningKey: process.env.QSTASH_NEXT_SIGNING_KEY || '',
 
-  // OpenRouter (for vision)
+  // Vision model (openrouter | openai = any OpenAI-compatible server | mock = canned answers)
+  visionEnabled: process.env.VISION_ENABLED !== 'false',
+  visionProvider: (process.env.VISION_PROVIDER || 'openrouter') as 'openrouter' | 'openai' | 'mock',
   openrouterApiKey: process.env.OPENROUTER_API_KEY || '',
-  visionModel: 'google/gemini-2.5-flash-preview',
+  visionModel: process.env.VISION_MODEL || 'google/gemini-2.5-flash-preview',
+  visionBaseUrl: process.env.VISION_BASE_URL || 'http://localhost:8080/v1',
+  visionApiKey: process.env.VISION_API_KEY || '',
+  visionTimeoutMs: parseInt(process.env.VISION_TIMEOUT_MS || '20000', 10),
+  visionMaxRetries: 2,
+  // Longest edge of the image sent to the model; smaller means fewer image tokens
+  visionMaxDimension: parseInt(process.env.VISION_MAX_DIMENSION || '768', 10),
+  visionRetryBaseMs: 1_000,
+  // Per process, reset at UTC midnight. Calls whose cost the provider doesn't report count at the estimate
+  visionDailySpendCapUsd: parseFloat(process.env.VISION_DAILY_SPEND_CAP_USD || '5'),
+  visionCostPerCallUsd: parseFloat(process.env.VISION_COST_PER_CALL_USD || '0.002'),
+
+  // Fetching
+  maxFetchBytes: parseInt(process.env.MAX_FETCH_BYTES || String(25 * 1024 * 1024), 10),
+  fetchMaxRetries: 3,
+  fetchRetryBaseMs: 500,
 
   // Processing
   maxImagePixels: 20_000_000,
+  // Each variant is encoded once per listed format (webp | avif | jpeg)
   derivativeSizes: {
-    thumb: { width: 160, quality: 75 },
-    grid: { width: 360, quality: 80 },
-    detail: { width: 960, quality: 80 },
+    thumb: { width: 160, quality: 75, formats: ['avif', 'webp'] },
+    grid: { width: 360, quality: 80, formats: ['avif', 'webp'] },
+    detail: { width: 960, quality: 80, formats: ['avif', 'webp', 'jpeg'] },
   } as const,
 
+  // Near-duplicate detection (max Hamming distance between 64-bit dHashes). Measured with
+  // `npm run eval`: JPEG q60, PNG, WebP q75 (once and twice) and half-size copies of a front stay
+  // within 4 of the original, different fronts are at least 18 apart; 10 sits between the two
+  phashMaxDistance: parseInt(process.env.PHASH_MAX_DISTANCE || '10', 10),
+
+  // Job queue
+  jobStore: (process.env.JOB_STORE || 'supabase') as 'supabase' | 'file',
+  jobStoreFile: process.env.JOB_STORE_FILE || './data/jobs.json',
+  maxConcurrentJobs: parseInt(process.env.MAX_CONCURRENT_JOBS || '4', 10),
+  rateLimitRequeueMs: 1_000,
+  // A worker holds a job for this long and renews while running; other replicas only recover expired leases
+  jobLeaseMs: parseInt(process.env.JOB_LEASE_MS || String(5 * 60_000), 10),
+  // Failed jobs are retried with exponential backoff (base * 2^(attempt-1)) up to this many attempts
+  jobMaxAttempts: parseInt(process.env.JOB_MAX_ATTEMPTS || '3', 10),
+  jobRetryBaseMs: parseInt(process.env.JOB_RETRY_BASE_MS || '30000', 10),
+  // How often to look for unfinished jobs whose lease expired (their replica stopped)
+  jobRecoverIntervalMs: parseInt(process.env.JOB_RECOVER_INTERVAL_MS || '60000', 10),
+
+  // Rate limiting ('postgres' shares buckets across replicas)
+  rateLimitStore: (process.env.RATE_LIMIT_STORE || 'memory') as 'memory' | 'postgres',
+  defaultRetryAfterMs: 5_000,
+
+  // Trained side classifier (scripts/train-side-model.ts); the heuristic is used while the file is missing
+  sideModelPath: process.env.SIDE_MODEL_PATH || './models/side-model.json',
+
+  // Card cropping / perspective correction (photos rather than scans)
+  cardCropMinTrustTier: 3,
+
+  // Image quality gates for assignment (see pipeline/quality.ts for what each measures)
+  qualityMinSharpness: parseFloat(process.env.QUALITY_MIN_SHARPNESS || '60'),
+  // Blockiness on the eval fixtures: clean images and q88 re-encodes 0.95-1.26, q50 re-encodes
+  // 1.37-1.64, q25 and below 1.67 and up
+  qualityMaxBlockiness: parseFloat(process.env.QUALITY_MAX_BLOCKINESS || '1.5'),
+  qualityMaxGlareRatio: parseFloat(process.env.QUALITY_MAX_GLARE_RATIO || '0.05'),
+  qualityMaxOverlayScore: parseFloat(process.env.QUALITY_MAX_OVERLAY_SCORE || '0.01'),
+
+  // Collector number OCR (Tier 2/3 jobs with a cardNumber). OCR_LANG_PATH overrides the bundled eng data
+  ocrEnabled: process.env.OCR_ENABLED !== 'false',
+  ocrLangPath: process.env.OCR_LANG_PATH || '',
+  ocrMinTrustTier: 2,
+  ocrMinConfidence: 0.6,
+
   // Confidence thresholds
   minConfidenceForAssignment: 0.85,
   visionCheckLowerBound: 0.6,
   visionCheckUpperBound: 0.9,
 
+  // Readiness checks (/ready): each check fails if it takes longer than this
+  readyCheckTimeoutMs: parseInt(process.env.READY_CHECK_TIMEOUT_MS || '5000', 10),
+
   // Storage
+  storageBackend: (process.env.STORAGE_BACKEND || 'supabase') as 'supabase' | 's3' | 'local',
   cardImagesBucket: 'card-images',
+  // Originals are never served publicly: a private bucket (or a directory outside /storage locally)
+  originalsBucket: process.env.ORIGINALS_BUCKET || 'card-originals',
+
+  // S3-compatible storage (STORAGE_BACKEND=s3)
+  s3Endpoint: process.env.S3_ENDPOINT || '',
+  s3Region: process.env.S3_REGION || 'auto',
+  s3Bucket: process.env.S3_BUCKET || '',
+  s3OriginalsBucket: process.env.S3_ORIGINALS_BUCKET || '',
+  s3AccessKeyId: process.env.S3_ACCESS_KEY_ID || '',
+  s3SecretAccessKey: process.env.S3_SECRET_ACCESS_KEY || '',
+  s3ForcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+  s3PublicBaseUrl: process.env.S3_PUBLIC_BASE_URL || '',
+
+  // Local directory storage (STORAGE_BACKEND=local)
+  localStorageDir: process.env.LOCAL_STORAGE_DIR || './data/storage',
+  localOriginalsDir: process.env.LOCAL_ORIGINALS_DIR || './data/originals',
+  localStoragePublicUrl: process.env.LOCAL_STORAGE_PUBLIC_URL || `http://localhost:${process.env.PORT || '3000'}/storage`,
 };
 
 // Validate required config
@@ -41,7 +133,12 @@ export function validateConfig(): void {
     'qstashNextSigningKey',
   ] as const;
 
-  const missing = required.filter(key => !config[key]);
+  const missing: string[] = required.filter(key => !config[key]);
+
+  if (config.storageBackend === 's3') {
+    const s3Required = ['s3Bucket', 's3OriginalsBucket', 's3AccessKeyId', 's3SecretAccessKey'] as const;
+    missing.push(...s3Required.filter(key => !config[key]));
+  }
 
   if (missing.length > 0) {
     throw new Error(`Missing required config: ${missing.join(', ')}`);
@@ -0,0 +1,192 @@
+import { getSupabase } from './client.js';
+import type { JobRecord } from '../types.js';
+
+interface JobRow {
+  id: string;
+  status: JobRecord['status'];
+  stage: JobRecord['stage'] | null;
+  payload: JobRecord['job'];
+  message_id: string | null;
+  idempotency_key: string | null;
+  result: JobRecord['result'] | null;
+  attempts: number;
+  lease_owner: string | null;
+  lease_expires_at: string | null;
+  created_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+}
+
+const JOB_COLUMNS =
+  'id, status, stage, payload, message_id, idempotency_key, result, attempts, lease_owner, lease_expires_at, created_at, started_at, finished_at';
+
+/**
+ * A job with this idempotency key already exists
+ */
+export class DuplicateJobError extends Error {
+  constructor(readonly idempotencyKey: string) {
+    super(`Job already exists for idempotency key ${idempotencyKey}`);
+    this.name = 'DuplicateJobError';
+  }
+}
+
+function fromRow(row: JobRow): JobRecord {
+  return {
+    id: row.id,
+    status: row.status,
+    stage: row.stage ?? undefined,
+    job: row.payload,
+    messageId: row.message_id ?? undefined,
+    idempotencyKey: row.idempotency_key ?? undefined,
+    result: row.result ?? undefined,
+    attempts: row.attempts,
+    leaseOwner: row.lease_owner ?? undefined,
+    leaseExpiresAt: row.lease_expires_at ?? undefined,
+    createdAt: row.created_at,
+    startedAt: row.started_at ?? undefined,
+    finishedAt: row.finished_at ?? undefined,
+  };
+}
+
+export async function insertJob(record: JobRecord): Promise<void> {
+  const { error } = await getSupabase()
+    .from('image_jobs')
+    .insert({
+      id: record.id,
+      status: record.status,
+      payload: record.job,
+      message_id: record.messageId,
+      idempotency_key: record.idempotencyKey,
+      attempts: record.attempts,
+      lease_owner: record.leaseOwner,
+      lease_expires_at: record.leaseExpiresAt,
+      created_at: record.createdAt,
+    });
+
+  if (error) {
+    // Unique violation on idempotency_key: another delivery of the same job got there first
+    if (error.code === '23505' && record.idempotencyKey) {
+      throw new DuplicateJobError(record.idempotencyKey);
+    }
+    throw new Error(`Failed to insert job: ${error.message}`);
+  }
+}
+
+export async function updateJob(id: string, patch: Partial<JobRecord>): Promise<void> {
+  const { error } = await getSupabase()
+    .from('image_jobs')
+    .update({
+      status: patch.status,
+      stage: patch.stage,
+      result: patch.result,
+      attempts: patch.attempts,
+      lease_owner: patch.leaseOwner,
+      lease_expires_at: patch.leaseExpiresAt,
+      started_at: patch.startedAt,
+      finished_at: patch.finishedAt,
+    })
+    .eq('id', id);
+
+  if (error) {
+    throw new Error(`Failed to update job: ${error.message}`);
+  }
+}
+
+export async function getJob(id: string): Promise<JobRecord | null> {
+  const { data, error } = await getSupabase()
+    .from('image_jobs')
+    .select(JOB_COLUMNS)
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to get job: ${error.message}`);
+  }
+
+  return data ? fromRow(data as JobRow) : null;
+}
+
+export async function getJobByIdempotencyKey(idempotencyKey: string): Promise<JobRecord | null> {
+  const { data, error } = await getSupabase()
+    .from('image_jobs')
+    .select(JOB_COLUMNS)
+    .eq('idempotency_key', idempotencyKey)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to get job by idempotency key: ${error.message}`);
+  }
+
+  return data ? fromRow(data as JobRow) : null;
+}
+
+/**
+ * Take a job for `owner` in one conditional update: only if it is queued or running, and its lease
+ * is ours, expired or unset, and nobody has started it since we read it (attempts unchanged).
+ * Returns null when another worker holds it.
+ */
+export async function claimJob(
+  id: string,
+  owner: string,
+  expectedAttempts: number,
+  leaseExpiresAt: string
+): Promise<JobRecord | null> {
+  const now = new Date().toISOString();
+  const { data, error } = await getSupabase()
+    .from('image_jobs')
+    .update({
+      status: 'running',
+      attempts: expectedAttempts + 1,
+      lease_owner: owner,
+      lease_expires_at: leaseExpiresAt,
+      started_at: now,
+    })
+    .eq('id', id)
+    .eq('attempts', expectedAttempts)
+    .in('status', ['queued', 'running'])
+    .or(`lease_owner.eq.${owner},lease_expires_at.is.null,lease_expires_at.lt.${now}`)
+    .select(JOB_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to claim job: ${error.message}`);
+  }
+
+  return data ? fromRow(data as JobRow) : null;
+}
+
+/**
+ * Extend a lease we still hold; false when it has been lost to another worker
+ */
+export async function renewJobLease(id: string, owner: string, leaseExpiresAt: string): Promise<boolean> {
+  const { data, error } = await getSupabase()
+    .from('image_jobs')
+    .update({ lease_expires_at: leaseExpiresAt })
+    .eq('id', id)
+    .eq('lease_owner', owner)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to renew job lease: ${error.message}`);
+  }
+
+  return (data ?? []).length > 0;
+}
+
+/**
+ * Unfinished jobs nobody holds: lease unset or expired (their worker died or gave them up)
+ */
+export async function listUnfinishedJobs(): Promise<JobRecord[]> {
+  const { data, error } = await getSupabase()
+    .from('image_jobs')
+    .select(JOB_COLUMNS)
+    .in('status', ['queued', 'running'])
+    .or(`lease_expires_at.is.null,lease_expires_at.lt.${new Date().toISOString()}`)
+    .order('created_at');
+
+  if (error) {
+    throw new Error(`Failed to list unfinished jobs: ${error.message}`);
+  }
+
+  return (data as JobRow[] ?? []).map(fromRow);
+}
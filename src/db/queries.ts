@@ -1,11 +1,25 @@
 import { getSupabase } from './client.js';
-import type { ImageSource } from '../types.js';
-import { logger } from '../utils/logger.js';
+import type {
+  CardQuad,
+  FetchValidators,
+  ImageQuality,
+  ImageSource,
+  NearDuplicateMatch,
+  SideDetectionResult,
+  VisionAnalysis,
+} from '../types.js';
+import { getLogContext, logger } from '../utils/logger.js';
+import { metrics } from '../utils/metrics.js';
+import { withSpan } from '../utils/tracing.js';
 
-export async function findImageBySha256(sha256: string): Promise<{ id: string } | null> {
+export async function findImageBySha256(sha256: string): Promise<{
+  id: string;
+  detectedSide: SideDetectionResult['side'];
+  sideConfidence: number;
+} | null> {
   const { data, error } = await getSupabase()
     .from('images')
-    .select('id')
+    .select('id, detected_side, side_confidence')
     .eq('sha256', sha256)
     .single();
 
@@ -13,7 +27,168 @@ export async function findImageBySha256(sha256: string): Promise<{ id: string }
     logger.error('Error finding image by SHA256', { error: error.message });
   }
 
-  return data;
+  return data ? {
+    id: data.id,
+    detectedSide: data.detected_side,
+    sideConfidence: data.side_confidence,
+  } : null;
+}
+
+/**
+ * Find images of the same card and side whose perceptual hash is within maxDistance bits of
+ * the given hash. Relies on the find_images_by_phash database function
+ * (supabase/migrations/*_find_images_by_phash.sql), closest first.
+ */
+export async function findImagesByPhash(
+  phash: string,
+  maxDistance: number,
+  scope: { cardId: string; side: 'front' | 'back' }
+): Promise<NearDuplicateMatch[]> {
+  const { data, error } = await getSupabase()
+    .rpc('find_images_by_phash', {
+      p_phash: phash,
+      p_max_distance: maxDistance,
+      p_card_id: scope.cardId,
+      p_side: scope.side,
+    });
+
+  if (error) {
+    logger.error('Error finding images by phash', { error: error.message });
+    return [];
+  }
+
+  return (data ?? []).map((row: {
+    id: string;
+    phash: string;
+    distance: number;
+    original_width: number;
+    original_height: number;
+    source_trust_tier: number | null;
+  }) => ({
+    id: row.id,
+    phash: row.phash,
+    distance: row.distance,
+    width: row.original_width,
+    height: row.original_height,
+    trustTier: row.source_trust_tier,
+  }));
+}
+
+export async function getFetchValidators(sourceUrl: string): Promise<FetchValidators | null> {
+  const { data, error } = await getSupabase()
+    .from('image_fetch_validators')
+    .select('etag, last_modified, sha256, card_id')
+    .eq('source_url', sourceUrl)
+    .maybeSingle();
+
+  if (error) {
+    logger.error('Error getting fetch validators', { error: error.message });
+    return null;
+  }
+
+  return data ? {
+    etag: data.etag ?? undefined,
+    lastModified: data.last_modified ?? undefined,
+    sha256: data.sha256 ?? undefined,
+    cardId: data.card_id ?? undefined,
+  } : null;
+}
+
+export async function saveFetchValidators(sourceUrl: string, validators: FetchValidators): Promise<void> {
+  const { error } = await getSupabase()
+    .from('image_fetch_validators')
+    .upsert({
+      source_url: sourceUrl,
+      etag: validators.etag ?? null,
+      last_modified: validators.lastModified ?? null,
+      sha256: validators.sha256 ?? null,
+      card_id: validators.cardId ?? null,
+      updated_at: new Date().toISOString(),
+    }, {
+      onConflict: 'source_url',
+    });
+
+  if (error) {
+    logger.error('Failed to save fetch validators', { error: error.message });
+  }
+}
+
+/**
+ * A cached answer only holds for the same bytes, prompt and model
+ */
+export interface VisionCacheKey {
+  sha256: string;
+  promptVersion: string;
+  provider: string;
+  model: string;
+}
+
+export interface CachedVisionResult {
+  analysis: VisionAnalysis;
+  // cardNumber|setCode the identity answer refers to, null when identity wasn't asked
+  identityTarget: string | null;
+}
+
+export async function getCachedVisionResult(key: VisionCacheKey): Promise<CachedVisionResult | null> {
+  const { data, error } = await getSupabase()
+    .from('vision_results')
+    .select('analysis, identity_target')
+    .eq('sha256', key.sha256)
+    .eq('prompt_version', key.promptVersion)
+    .eq('provider', key.provider)
+    .eq('model', key.model)
+    .maybeSingle();
+
+  if (error) {
+    logger.error('Error getting cached vision result', { error: error.message });
+    return null;
+  }
+
+  return data ? {
+    analysis: data.analysis,
+    identityTarget: data.identity_target,
+  } : null;
+}
+
+export async function saveVisionResult(params: VisionCacheKey & {
+  identityTarget: string | null;
+  analysis: VisionAnalysis;
+  costUsd: number;
+  latencyMs: number;
+}): Promise<void> {
+  const { error } = await getSupabase()
+    .from('vision_results')
+    .upsert({
+      sha256: params.sha256,
+      prompt_version: params.promptVersion,
+      identity_target: params.identityTarget,
+      provider: params.provider,
+      model: params.model,
+      analysis: params.analysis,
+      cost_usd: params.costUsd,
+      latency_ms: params.latencyMs,
+      created_at: new Date().toISOString(),
+    }, {
+      onConflict: 'sha256,prompt_version,provider,model',
+    });
+
+  if (error) {
+    logger.error('Failed to save vision result', { error: error.message });
+  }
+}
+
+/**
+ * Cheapest round trip that proves the database is reachable and the key is accepted
+ */
+export async function pingDatabase(): Promise<void> {
+  const { error } = await getSupabase()
+    .from('image_sources')
+    .select('id', { head: true })
+    .limit(1);
+
+  if (error) {
+    throw new Error(`Database ping failed: ${error.message}`);
+  }
 }
 
 export async function getImageSource(sourceId: string): Promise<ImageSource | null> {
@@ -70,13 +245,18 @@ export async function createImageRecord(params: {
   originalHeight: number;
   originalBytes: number;
   originalStoragePath?: string;
+  sourceTrustTier?: number;
   status: string;
   detectedSide: string;
   sideConfidence: number;
   isCollage: boolean;
   detectedMethod: string;
+  backDesign?: string;
+  quality?: ImageQuality;
+  cropRegion?: CardQuad;
+  parentImageId?: string;
 }): Promise<string> {
-  const { data, error } = await getSupabase()
+  const { data, error } = await withSpan('db.create_image_record', async () => getSupabase()
     .from('images')
     .insert({
       sha256: params.sha256,
@@ -86,14 +266,20 @@ export async function createImageRecord(params: {
       original_height: params.originalHeight,
       original_bytes: params.originalBytes,
       original_storage_path: params.originalStoragePath,
+      source_trust_tier: params.sourceTrustTier,
       status: params.status,
       detected_side: params.detectedSide,
       side_confidence: params.sideConfidence,
       is_collage: params.isCollage,
       detected_method: params.detectedMethod,
+      back_design: params.backDesign,
+      quality: params.quality,
+      sharpness: params.quality?.sharpness,
+      crop_region: params.cropRegion,
+      parent_image_id: params.parentImageId,
     })
     .select('id')
-    .single();
+    .single());
 
   if (error) {
     throw new Error(`Failed to create image record: ${error.message}`);
@@ -113,6 +299,17 @@ export async function updateImageStatus(imageId: string, status: string, error?:
   }
 }
 
+export async function setChildImages(parentImageId: string, childImageIds: string[]): Promise<void> {
+  const { error } = await getSupabase()
+    .from('images')
+    .update({ child_image_ids: childImageIds, updated_at: new Date().toISOString() })
+    .eq('id', parentImageId);
+
+  if (error) {
+    throw new Error(`Failed to set child images: ${error.message}`);
+  }
+}
+
 export async function createDerivativeRecord(params: {
   imageId: string;
   variant: string;
@@ -122,7 +319,7 @@ export async function createDerivativeRecord(params: {
   bytes: number;
   storagePath: string;
 }): Promise<void> {
-  const { error } = await getSupabase()
+  const { error } = await withSpan('db.create_derivative_record', async () => getSupabase()
     .from('image_derivatives')
     .insert({
       image_id: params.imageId,
@@ -132,17 +329,356 @@ export async function createDerivativeRecord(params: {
       height: params.height,
       bytes: params.bytes,
       storage_path: params.storagePath,
-    });
+    }), { 'derivative.variant': params.variant, 'derivative.format': params.format });
 
   if (error) {
     throw new Error(`Failed to create derivative record: ${error.message}`);
   }
 }
 
+/**
+ * Delete an image's derivative rows, returning the storage paths they pointed at
+ */
+export async function deleteDerivativeRecords(imageId: string): Promise<string[]> {
+  const { data, error } = await getSupabase()
+    .from('image_derivatives')
+    .delete()
+    .eq('image_id', imageId)
+    .select('storage_path');
+
+  if (error) {
+    throw new Error(`Failed to delete derivative records: ${error.message}`);
+  }
+
+  return (data ?? []).map(row => row.storage_path as string);
+}
+
+export interface StoredImage {
+  id: string;
+  sha256: string;
+  originalStoragePath: string | null;
+  originalWidth: number;
+  cropRegion: CardQuad | null;
+}
+
+export async function getStoredImage(imageId: string): Promise<StoredImage | null> {
+  const { data, error } = await getSupabase()
+    .from('images')
+    .select('id, sha256, original_storage_path, original_width, crop_region')
+    .eq('id', imageId)
+    .single();
+
+  if (error) {
+    logger.error('Error getting stored image', { error: error.message, imageId });
+    return null;
+  }
+
+  return data ? {
+    id: data.id,
+    sha256: data.sha256,
+    originalStoragePath: data.original_storage_path,
+    originalWidth: data.original_width,
+    cropRegion: data.crop_region,
+  } : null;
+}
+
+/**
+ * List images that have a stored original, ordered by id for stable paging
+ */
+export async function listStoredImageIds(afterId: string | null, limit: number): Promise<string[]> {
+  let query = getSupabase()
+    .from('images')
+    .select('id')
+    .not('original_storage_path', 'is', null)
+    .order('id')
+    .limit(limit);
+
+  if (afterId) {
+    query = query.gt('id', afterId);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to list stored images: ${error.message}`);
+  }
+
+  return (data ?? []).map(row => row.id as string);
+}
+
+export interface ConfirmedSideImage extends StoredImage {
+  side: 'front' | 'back';
+}
+
+/**
+ * Images whose side is known to be right: set by a reviewer or by the vision model.
+ * Tier 1 sources are not enough on their own - their side still comes from the heuristics.
+ * Collage parents are excluded; their side is never meaningful.
+ */
+export async function listConfirmedSideImages(afterId: string | null, limit: number): Promise<ConfirmedSideImage[]> {
+  let query = getSupabase()
+    .from('images')
+    .select('id, sha256, original_storage_path, original_width, crop_region, detected_side')
+    .not('original_storage_path', 'is', null)
+    .in('detected_side', ['front', 'back'])
+    .eq('is_collage', false)
+    .in('detected_method', ['manual', 'vision'])
+    .order('id')
+    .limit(limit);
+
+  if (afterId) {
+    query = query.gt('id', afterId);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to list confirmed images: ${error.message}`);
+  }
+
+  return (data ?? []).map(row => ({
+    id: row.id,
+    sha256: row.sha256,
+    originalStoragePath: row.original_storage_path,
+    originalWidth: row.original_width,
+    cropRegion: row.crop_region,
+    side: row.detected_side,
+  }));
+}
+
+export interface PendingReview {
+  imageId: string;
+  cardId: string | null;
+  reason: string | null;
+  detectedSide: SideDetectionResult['side'];
+  sideConfidence: number;
+  detectedMethod: string;
+  backDesign: string | null;
+  quality: ImageQuality | null;
+  width: number;
+  height: number;
+  trustTier: number | null;
+  parentImageId: string | null;
+  createdAt: string;
+  derivatives: Array<{ variant: string; format: string; width: number; height: number; storagePath: string }>;
+}
+
+interface PendingReviewRow {
+  id: string;
+  review_card_id: string | null;
+  review_reason: string | null;
+  detected_side: SideDetectionResult['side'];
+  side_confidence: number;
+  detected_method: string;
+  back_design: string | null;
+  quality: ImageQuality | null;
+  original_width: number;
+  original_height: number;
+  source_trust_tier: number | null;
+  parent_image_id: string | null;
+  created_at: string;
+  image_derivatives: Array<{ variant: string; format: string; width: number; height: number; storage_path: string }> | null;
+}
+
+export async function markImageForReview(imageId: string, cardId: string, reason: string): Promise<void> {
+  const { error } = await getSupabase()
+    .from('images')
+    .update({ review_status: 'pending', review_card_id: cardId, review_reason: reason })
+    .eq('id', imageId);
+
+  if (error) {
+    logger.error('Failed to mark image for review', { error: error.message, imageId });
+  }
+}
+
+/**
+ * Images waiting for a reviewer, oldest first, with their derivatives.
+ * Keyset paging on (created_at, id), so images created in the same instant aren't skipped.
+ */
+export async function listPendingReviews(
+  limit: number,
+  after?: { createdAt: string; imageId: string }
+): Promise<PendingReview[]> {
+  let query = getSupabase()
+    .from('images')
+    .select(
+      'id, review_card_id, review_reason, detected_side, side_confidence, detected_method, back_design, quality, ' +
+      'original_width, original_height, source_trust_tier, parent_image_id, created_at, ' +
+      'image_derivatives(variant, format, width, height, storage_path)'
+    )
+    .eq('review_status', 'pending')
+    .order('created_at')
+    .order('id')
+    .limit(limit);
+
+  if (after) {
+    query = query.or(
+      `created_at.gt."${after.createdAt}",and(created_at.eq."${after.createdAt}",id.gt.${after.imageId})`
+    );
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to list pending reviews: ${error.message}`);
+  }
+
+  return ((data ?? []) as unknown as PendingReviewRow[]).map(row => ({
+    imageId: row.id,
+    cardId: row.review_card_id,
+    reason: row.review_reason,
+    detectedSide: row.detected_side,
+    sideConfidence: row.side_confidence,
+    detectedMethod: row.detected_method,
+    backDesign: row.back_design,
+    quality: row.quality,
+    width: row.original_width,
+    height: row.original_height,
+    trustTier: row.source_trust_tier,
+    parentImageId: row.parent_image_id,
+    createdAt: row.created_at,
+    derivatives: (row.image_derivatives ?? []).map(derivative => ({
+      variant: derivative.variant,
+      format: derivative.format,
+      width: derivative.width,
+      height: derivative.height,
+      storagePath: derivative.storage_path,
+    })),
+  }));
+}
+
+export async function getReviewTarget(imageId: string): Promise<{ imageId: string; cardId: string | null; status: string | null } | null> {
+  const { data, error } = await getSupabase()
+    .from('images')
+    .select('id, review_card_id, review_status')
+    .eq('id', imageId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to get image for review: ${error.message}`);
+  }
+
+  return data ? { imageId: data.id, cardId: data.review_card_id, status: data.review_status } : null;
+}
+
+/**
+ * Record a reviewer's decision. A confirmed side is stored as detected_method 'manual' with full confidence.
+ */
+export async function updateImageReview(imageId: string, params: {
+  status: 'pending' | 'approved' | 'rejected';
+  reviewer: string;
+  cardId?: string;
+  side?: 'front' | 'back';
+  note?: string;
+}): Promise<void> {
+  const { error } = await getSupabase()
+    .from('images')
+    .update({
+      review_status: params.status,
+      reviewed_by: params.reviewer,
+      reviewed_at: new Date().toISOString(),
+      ...(params.cardId ? { review_card_id: params.cardId } : {}),
+      ...(params.note !== undefined ? { review_reason: params.note } : {}),
+      ...(params.side ? { detected_side: params.side, side_confidence: 1, detected_method: 'manual' } : {}),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', imageId);
+
+  if (error) {
+    throw new Error(`Failed to update image review: ${error.message}`);
+  }
+}
+
+/** What the assignment policy needs to know about an image */
+export interface AssignmentStats {
+  imageId: string;
+  detectedSide: SideDetectionResult['side'];
+  sideConfidence: number;
+  width: number;
+  height: number;
+  trustTier: number | null;
+  sharpness: number | null;
+  quality: ImageQuality | null;
+  fromCollage: boolean;
+  // Manual review decision, null when the image never went to review
+  reviewStatus: 'pending' | 'approved' | 'rejected' | null;
+}
+
+const ASSIGNMENT_STATS_COLUMNS =
+  'id, detected_side, side_confidence, original_width, original_height, source_trust_tier, sharpness, quality, parent_image_id, review_status';
+
+interface AssignmentStatsRow {
+  id: string;
+  detected_side: SideDetectionResult['side'];
+  side_confidence: number;
+  original_width: number;
+  original_height: number;
+  source_trust_tier: number | null;
+  sharpness: number | null;
+  quality: ImageQuality | null;
+  parent_image_id: string | null;
+  review_status: AssignmentStats['reviewStatus'];
+}
+
+function toAssignmentStats(row: AssignmentStatsRow): AssignmentStats {
+  return {
+    imageId: row.id,
+    detectedSide: row.detected_side,
+    sideConfidence: row.side_confidence,
+    width: row.original_width,
+    height: row.original_height,
+    trustTier: row.source_trust_tier,
+    sharpness: row.sharpness,
+    quality: row.quality,
+    fromCollage: row.parent_image_id !== null,
+    reviewStatus: row.review_status,
+  };
+}
+
+export async function getAssignmentStats(imageId: string): Promise<AssignmentStats | null> {
+  const { data, error } = await getSupabase()
+    .from('images')
+    .select(ASSIGNMENT_STATS_COLUMNS)
+    .eq('id', imageId)
+    .maybeSingle();
+
+  if (error) {
+    logger.error('Error getting assignment stats', { error: error.message, imageId });
+    return null;
+  }
+
+  return data ? toAssignmentStats(data as AssignmentStatsRow) : null;
+}
+
+/** The image currently filling a card's role, if any */
+export async function getCardAssignment(cardId: string, role: string): Promise<AssignmentStats | null> {
+  const { data, error } = await getSupabase()
+    .from('card_images')
+    .select(`image_id, images(${ASSIGNMENT_STATS_COLUMNS})`)
+    .eq('card_id', cardId)
+    .eq('role', role)
+    .maybeSingle();
+
+  if (error) {
+    logger.error('Error getting card assignment', { error: error.message, cardId, role });
+    return null;
+  }
+
+  if (!data) return null;
+
+  const image = (Array.isArray(data.images) ? data.images[0] : data.images) as AssignmentStatsRow | null;
+  return image ? toAssignmentStats(image) : null;
+}
+
+/**
+ * Unconditionally put an image in a card role (reviewer decisions). The score is stored so
+ * later automatic candidates are compared against it.
+ */
 export async function assignImageToCard(params: {
   cardId: string;
   imageId: string;
   role: string;
+  score: number;
   sourceId?: string;
   sourceUrl?: string;
 }): Promise<void> {
@@ -152,6 +688,7 @@ export async function assignImageToCard(params: {
       card_id: params.cardId,
       image_id: params.imageId,
       role: params.role,
+      score: params.score,
       source_id: params.sourceId,
       source_url: params.sourceUrl,
       assigned_at: new Date().toISOString(),
@@ -164,6 +701,52 @@ export async function assignImageToCard(params: {
   }
 }
 
+/**
+ * Put an image in a card role only if it scores higher than the stored score of the image there.
+ * The compare and the replace are one statement (assign_image_if_better), so concurrent jobs
+ * can't overwrite a better image. `current` is what the caller read, used for rows stored
+ * before scores were. Returns whether the image was assigned and what holds the role now.
+ */
+export async function assignImageIfBetter(params: {
+  cardId: string;
+  imageId: string;
+  role: string;
+  score: number;
+  sourceId?: string;
+  sourceUrl?: string;
+  force?: boolean;
+  current?: { imageId: string; score: number };
+}): Promise<{ assigned: boolean; currentImageId: string | null; currentScore: number | null }> {
+  const { data, error } = await getSupabase()
+    .rpc('assign_image_if_better', {
+      p_card_id: params.cardId,
+      p_role: params.role,
+      p_image_id: params.imageId,
+      p_score: params.score,
+      p_source_id: params.sourceId ?? null,
+      p_source_url: params.sourceUrl ?? null,
+      p_force: params.force ?? false,
+      p_current_image_id: params.current?.imageId ?? null,
+      p_current_score: params.current?.score ?? null,
+    });
+
+  if (error) {
+    throw new Error(`Failed to assign image to card: ${error.message}`);
+  }
+
+  const [row] = (data ?? []) as Array<{
+    assigned: boolean;
+    current_image_id: string | null;
+    current_score: number | null;
+  }>;
+
+  return {
+    assigned: row?.assigned ?? false,
+    currentImageId: row?.current_image_id ?? null,
+    currentScore: row?.current_score ?? null,
+  };
+}
+
 export async function logIngestEvent(params: {
   cardId?: string;
   candidateId?: string;
@@ -173,7 +756,9 @@ export async function logIngestEvent(params: {
   httpStatus?: number;
   metadata?: Record<string, unknown>;
 }): Promise<void> {
-  const { error } = await getSupabase()
+  metrics.ingestEvents.inc({ event_type: params.eventType });
+
+  const { error } = await withSpan('db.log_ingest_event', async () => getSupabase()
     .from('image_ingest_events')
     .insert({
       card_id: params.cardId,
@@ -183,7 +768,8 @@ export async function logIngestEvent(params: {
       message: params.message,
       http_status: params.httpStatus,
       metadata: params.metadata,
-    });
+      correlation_id: getLogContext().correlationId,
+    }), { 'event.type': params.eventType });
 
   if (error) {
     logger.error('Failed to log ingest event', { error: error.message });
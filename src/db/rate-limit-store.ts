@@ -0,0 +1,64 @@
+import { getSupabase } from './client.js';
+import type { BucketState, RateLimitStore } from '../utils/rate-limit.js';
+
+// Postgres unique_violation - another replica created the bucket first
+const UNIQUE_VIOLATION = '23505';
+
+/**
+ * Shared token buckets in the rate_limit_buckets table, so all replicas draw from one budget
+ */
+export function createPostgresRateLimitStore(): RateLimitStore {
+  return {
+    async get(key) {
+      const { data, error } = await getSupabase()
+        .from('rate_limit_buckets')
+        .select('tokens, last_refill, blocked_until, version')
+        .eq('key', key)
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Failed to read rate limit bucket: ${error.message}`);
+      }
+
+      return data ? {
+        state: {
+          tokens: data.tokens,
+          lastRefill: data.last_refill,
+          blockedUntil: data.blocked_until,
+        },
+        version: data.version,
+      } : null;
+    },
+
+    async compareAndSet(key, expectedVersion, state: BucketState) {
+      const row = {
+        tokens: state.tokens,
+        last_refill: state.lastRefill,
+        blocked_until: state.blockedUntil,
+      };
+
+      if (expectedVersion === null) {
+        const { error } = await getSupabase()
+          .from('rate_limit_buckets')
+          .insert({ key, ...row, version: 1 });
+
+        if (error?.code === UNIQUE_VIOLATION) return false;
+        if (error) throw new Error(`Failed to create rate limit bucket: ${error.message}`);
+        return true;
+      }
+
+      const { data, error } = await getSupabase()
+        .from('rate_limit_buckets')
+        .update({ ...row, version: expectedVersion + 1 })
+        .eq('key', key)
+        .eq('version', expectedVersion)
+        .select('key');
+
+      if (error) {
+        throw new Error(`Failed to update rate limit bucket: ${error.message}`);
+      }
+
+      return (data ?? []).length === 1;
+    },
+  };
+}
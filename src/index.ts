@@ -1,23 +1,82 @@
 import express from 'express';
+import { randomUUID } from 'crypto';
 import { Receiver } from '@upstash/qstash';
 import { config, validateConfig } from './config.js';
-import { processImage } from './pipeline/index.js';
-import { ImageJob } from './types.js';
-import { logger } from './utils/logger.js';
+import { regenerateImage } from './pipeline/regenerate.js';
+import { approveImage, listReviewQueue, reassignImage, rejectImage, ReviewError } from './pipeline/review.js';
+import { createJobQueue } from './queue/index.js';
+import { createJobStore } from './queue/store.js';
+import { ImageJob, JobRecord } from './types.js';
+import { logger, runWithLogContext } from './utils/logger.js';
+import { metrics, registry } from './utils/metrics.js';
+import { checkReadiness } from './utils/readiness.js';
+import { extractTraceContext, initTracing, runInTraceContext } from './utils/tracing.js';
 
 // Validate config on startup
 validateConfig();
+initTracing();
 
 const app = express();
+const queue = createJobQueue(createJobStore());
 
 // Parse JSON bodies
 app.use(express.json({ limit: '1mb' }));
 
+// Correlation id for everything logged while handling the request, and the caller's trace context
+// (traceparent) so queued jobs continue the caller's trace
+app.use((req, _res, next) => {
+  const messageId = req.header('upstash-message-id');
+  runInTraceContext(extractTraceContext(req.headers), () =>
+    runWithLogContext({ correlationId: messageId ?? req.header('x-request-id') ?? randomUUID(), messageId }, next)
+  );
+});
+
+// Serve stored files when running with the local directory backend. Originals live in their own
+// directory; the originals/ prefix is refused in case older ones haven't been moved out yet
+if (config.storageBackend === 'local') {
+  app.use('/storage/originals', (_req, res) => res.status(404).end());
+  app.use('/storage', express.static(config.localStorageDir, { immutable: true, maxAge: '1y' }));
+}
+
 // Health check endpoint
 app.get('/health', (_req, res) => {
   res.json({ status: 'ok', timestamp: new Date().toISOString() });
 });
 
+// Readiness: database, storage, sharp and vision config all usable. 503 keeps the worker out of service
+app.get('/ready', async (_req, res) => {
+  const report = await checkReadiness();
+  res.status(report.ready ? 200 : 503).json({ status: report.ready ? 'ready' : 'not_ready', ...report });
+});
+
+// Prometheus scrape endpoint
+app.get('/metrics', async (_req, res) => {
+  try {
+    const { pending, running } = queue.stats();
+    metrics.queuedJobs.set({ state: 'pending' }, pending);
+    metrics.queuedJobs.set({ state: 'running' }, running);
+
+    res.set('Content-Type', registry.contentType);
+    return res.send(await registry.metrics());
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    logger.error('Metrics handler error', { error: message });
+    return res.status(500).json({ error: message });
+  }
+});
+
+/**
+ * Answer for a delivery that was already accepted: the stored result once the job has finished
+ */
+function replayResponse(res: express.Response, record: JobRecord) {
+  logger.info('Duplicate delivery', { jobId: record.id, idempotencyKey: record.idempotencyKey, status: record.status });
+
+  if (record.status === 'queued' || record.status === 'running') {
+    return res.status(202).json({ jobId: record.id, status: 'in_progress', replayed: true });
+  }
+  return res.status(200).json({ jobId: record.id, status: record.status, result: record.result, replayed: true });
+}
+
 // QStash webhook receiver
 const receiver = new Receiver({
   currentSigningKey: config.qstashCurrentSigningKey,
@@ -26,8 +85,6 @@ const receiver = new Receiver({
 
 // QStash webhook endpoint
 app.post('/webhook/qstash', async (req, res) => {
-  const startTime = Date.now();
-
   try {
     // Verify QStash signature
     const signature = req.headers['upstash-signature'];
@@ -54,18 +111,24 @@ app.post('/webhook/qstash', async (req, res) => {
       return res.status(400).json({ error: 'Missing cardId or sourceUrl' });
     }
 
-    // Process the image
-    const result = await processImage(job);
-
-    const elapsed = Date.now() - startTime;
-    logger.info('Job completed', { cardId: job.cardId, status: result.status, elapsed });
+    // Acknowledge once the job is durably queued - processing happens in the background.
+    // QStash redelivers on timeouts and errors, so each message (or caller key) is only queued once
+    const messageId = req.header('upstash-message-id');
+    const idempotencyKey = req.header('idempotency-key') ?? messageId;
 
-    // If rate limited, tell QStash to retry (429 status)
-    if (result.status === 'rate_limited') {
-      return res.status(429).json(result);
+    let record: JobRecord;
+    if (idempotencyKey) {
+      const outcome = await queue.enqueueOnce(job, idempotencyKey, { messageId });
+      if (outcome.replayed) {
+        return replayResponse(res, outcome.record);
+      }
+      record = outcome.record;
+    } else {
+      record = await queue.enqueue(job, { messageId });
     }
+    logger.info('Job queued', { jobId: record.id, cardId: job.cardId });
 
-    return res.json(result);
+    return res.status(202).json({ jobId: record.id, status: record.status });
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Unknown error';
     logger.error('Webhook handler error', { error: message });
@@ -75,8 +138,6 @@ app.post('/webhook/qstash', async (req, res) => {
 
 // Direct processing endpoint (for testing without QStash)
 app.post('/process', async (req, res) => {
-  const startTime = Date.now();
-
   try {
     // Check for service key auth
     const authHeader = req.headers.authorization;
@@ -95,12 +156,21 @@ app.post('/process', async (req, res) => {
       return res.status(400).json({ error: 'Missing cardId or sourceUrl' });
     }
 
-    const result = await processImage(job);
+    const idempotencyKey = req.header('idempotency-key');
 
-    const elapsed = Date.now() - startTime;
-    logger.info('Direct process completed', { cardId: job.cardId, status: result.status, elapsed });
+    let record: JobRecord;
+    if (idempotencyKey) {
+      const outcome = await queue.enqueueOnce(job, idempotencyKey);
+      if (outcome.replayed) {
+        return replayResponse(res, outcome.record);
+      }
+      record = outcome.record;
+    } else {
+      record = await queue.enqueue(job);
+    }
+    logger.info('Direct process queued', { jobId: record.id, cardId: job.cardId });
 
-    return res.json(result);
+    return res.status(202).json({ jobId: record.id, status: record.status });
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Unknown error';
     logger.error('Process handler error', { error: message });
@@ -121,15 +191,15 @@ app.post('/batch', async (req, res) => {
       return res.status(400).json({ error: 'jobs must be an array' });
     }
 
-    const results = [];
+    const queued = [];
     for (const job of jobs) {
       if (job.cardId && job.sourceUrl) {
-        const result = await processImage(job);
-        results.push({ cardId: job.cardId, ...result });
+        const record = await queue.enqueue(job);
+        queued.push({ cardId: job.cardId, jobId: record.id });
       }
     }
 
-    return res.json({ results, count: results.length });
+    return res.status(202).json({ jobs: queued, count: queued.length });
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Unknown error';
     logger.error('Batch handler error', { error: message });
@@ -137,10 +207,141 @@ app.post('/batch', async (req, res) => {
   }
 });
 
+// Job status / progress
+app.get('/jobs/:id', async (req, res) => {
+  try {
+    const authHeader = req.headers.authorization;
+    if (!authHeader?.startsWith('Bearer ') || authHeader.substring(7) !== config.supabaseServiceKey) {
+      return res.status(403).json({ error: 'Unauthorized' });
+    }
+
+    const record = await queue.get(req.params.id);
+    if (!record) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    return res.json(record);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    logger.error('Job status handler error', { error: message });
+    return res.status(500).json({ error: message });
+  }
+});
+
+// Regenerate derivatives from stored originals (after derivativeSizes changes)
+app.post('/regenerate', async (req, res) => {
+  try {
+    const authHeader = req.headers.authorization;
+    if (!authHeader?.startsWith('Bearer ') || authHeader.substring(7) !== config.supabaseServiceKey) {
+      return res.status(403).json({ error: 'Unauthorized' });
+    }
+
+    const { imageId, all } = req.body as { imageId?: string; all?: boolean };
+
+    if (imageId) {
+      const result = await regenerateImage(imageId);
+      return res.status(result.status === 'completed' ? 200 : 422).json(result);
+    }
+
+    // Every image can take a while - run it as a queued job and poll /jobs/:id
+    if (all === true) {
+      const record = await queue.enqueue({ kind: 'regenerate_all' });
+      logger.info('Regenerate all queued', { jobId: record.id });
+      return res.status(202).json({ jobId: record.id, status: record.status });
+    }
+
+    return res.status(400).json({ error: 'Provide imageId or all: true' });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    logger.error('Regenerate handler error', { error: message });
+    return res.status(500).json({ error: message });
+  }
+});
+
+// Manual review queue: images that were stored but not assigned
+app.get('/review', async (req, res) => {
+  try {
+    const authHeader = req.headers.authorization;
+    if (!authHeader?.startsWith('Bearer ') || authHeader.substring(7) !== config.supabaseServiceKey) {
+      return res.status(403).json({ error: 'Unauthorized' });
+    }
+
+    const limit = Math.min(parseInt(String(req.query.limit ?? '50'), 10) || 50, 200);
+    const after = typeof req.query.after === 'string' ? req.query.after : undefined;
+
+    const { items, next } = await listReviewQueue(limit, after);
+    return res.json({ items, count: items.length, next });
+  } catch (error) {
+    if (error instanceof ReviewError) {
+      return res.status(error.httpStatus).json({ error: error.message });
+    }
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    logger.error('Review queue handler error', { error: message });
+    return res.status(500).json({ error: message });
+  }
+});
+
+// Review decisions: approve as front/back, reject, or reassign to another card
+app.post('/review/:imageId/:action', async (req, res) => {
+  try {
+    const authHeader = req.headers.authorization;
+    if (!authHeader?.startsWith('Bearer ') || authHeader.substring(7) !== config.supabaseServiceKey) {
+      return res.status(403).json({ error: 'Unauthorized' });
+    }
+
+    const reviewer = req.headers['x-reviewer'];
+    if (!reviewer || typeof reviewer !== 'string') {
+      return res.status(400).json({ error: 'Missing X-Reviewer header' });
+    }
+
+    const { imageId, action } = req.params;
+    const { side, cardId, reason } = req.body as { side?: string; cardId?: string; reason?: string };
+
+    switch (action) {
+      case 'approve':
+        if (side !== 'front' && side !== 'back') {
+          return res.status(400).json({ error: 'side must be front or back' });
+        }
+        return res.json(await approveImage({ imageId, side, reviewer, cardId }));
+
+      case 'reject':
+        await rejectImage({ imageId, reviewer, reason });
+        return res.json({ imageId, status: 'rejected' });
+
+      case 'reassign':
+        if (!cardId) {
+          return res.status(400).json({ error: 'Missing cardId' });
+        }
+        await reassignImage({ imageId, cardId, reviewer });
+        return res.json({ imageId, cardId, status: 'pending' });
+
+      default:
+        return res.status(404).json({ error: `Unknown review action: ${action}` });
+    }
+  } catch (error) {
+    if (error instanceof ReviewError) {
+      return res.status(error.httpStatus).json({ error: error.message });
+    }
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    logger.error('Review handler error', { error: message });
+    return res.status(500).json({ error: message });
+  }
+});
+
 // Start server
 app.listen(config.port, () => {
   logger.info('Railway Image Worker started', {
     port: config.port,
     supabaseUrl: config.supabaseUrl,
+    jobStore: config.jobStore,
+    storageBackend: config.storageBackend,
+  });
+
+  // Pick up jobs that were queued or mid-flight when the last process stopped, then keep picking
+  // up those a stopped replica leaves behind
+  const recoverJobs = () => queue.recover().catch(error => {
+    logger.error('Job recovery failed', { error: error instanceof Error ? error.message : 'Unknown' });
   });
+  void recoverJobs();
+  setInterval(recoverJobs, config.jobRecoverIntervalMs);
 });
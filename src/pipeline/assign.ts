@@ -0,0 +1,156 @@
+import { ImageRole, SideDetectionResult } from '../types.js';
+import { config } from '../config.js';
+import { logger } from '../utils/logger.js';
+import {
+  AssignmentStats,
+  assignImageIfBetter,
+  getAssignmentStats,
+  getCardAssignment,
+  logIngestEvent,
+} from '../db/queries.js';
+
+// How much each factor contributes to an image's score (weights sum to 1)
+const SCORE_WEIGHTS = {
+  trust: 0.4,
+  resolution: 0.25,
+  confidence: 0.15,
+  sharpness: 0.1,
+  standalone: 0.1,
+};
+
+// Short side of a full-size official card image; anything at or above scores full marks
+const REFERENCE_SHORT_SIDE = 734;
+// Laplacian variance at which an image counts as fully sharp
+const REFERENCE_SHARPNESS = 300;
+
+export interface ScoreBreakdown {
+  total: number;
+  trust: number;
+  resolution: number;
+  confidence: number;
+  sharpness: number;
+  standalone: number;
+}
+
+/**
+ * Score an image for a card role between 0 and 1.
+ * Trust tier dominates so a later low-tier upload can't displace an official image;
+ * resolution, side confidence, sharpness and not being cut from a collage break ties.
+ */
+export function scoreImage(image: AssignmentStats): ScoreBreakdown {
+  const tier = image.trustTier ?? 3;
+  const factors = {
+    trust: Math.max(0, 1 - (tier - 1) * 0.35),
+    resolution: Math.min(1, Math.min(image.width, image.height) / REFERENCE_SHORT_SIDE),
+    confidence: Math.max(0, Math.min(1, image.sideConfidence)),
+    // Images stored before sharpness was measured get a neutral score
+    sharpness: image.sharpness === null ? 0.5 : Math.min(1, image.sharpness / REFERENCE_SHARPNESS),
+    standalone: image.fromCollage ? 0 : 1,
+  };
+
+  const total = (Object.keys(factors) as Array<keyof typeof factors>)
+    .reduce((sum, key) => sum + factors[key] * SCORE_WEIGHTS[key], 0);
+
+  return { total: Math.round(total * 1000) / 1000, ...factors };
+}
+
+/**
+ * Card role an image can fill, or null when its side is unknown or not confident enough
+ */
+export function roleForSide(side: SideDetectionResult['side'], confidence: number): ImageRole | null {
+  if (side === 'unknown' || confidence < config.minConfidenceForAssignment) {
+    return null;
+  }
+  return side === 'front' ? 'primary_front' : 'primary_back';
+}
+
+/**
+ * Fill a card's image role when the candidate scores higher than the image already there.
+ * Ties keep the current image; `force` replaces it regardless of score. The final compare
+ * happens in the database against the stored score, so a concurrent assignment isn't lost.
+ */
+export async function assignIfBetter(params: {
+  cardId: string;
+  imageId: string;
+  role: ImageRole;
+  sourceId?: string;
+  sourceUrl?: string;
+  force?: boolean;
+}): Promise<boolean> {
+  const { cardId, imageId, role } = params;
+
+  const [candidate, current] = await Promise.all([
+    getAssignmentStats(imageId),
+    getCardAssignment(cardId, role),
+  ]);
+
+  if (!candidate) {
+    throw new Error(`Image ${imageId} not found for assignment`);
+  }
+
+  if (current?.imageId === imageId) {
+    return true;
+  }
+
+  const candidateScore = scoreImage(candidate);
+  const currentScore = current ? scoreImage(current) : null;
+
+  const outcome = await assignImageIfBetter({
+    cardId,
+    imageId,
+    role,
+    score: candidateScore.total,
+    sourceId: params.sourceId,
+    sourceUrl: params.sourceUrl,
+    force: params.force,
+    current: current && currentScore ? { imageId: current.imageId, score: currentScore.total } : undefined,
+  });
+
+  const decision = {
+    role,
+    forced: params.force ?? false,
+    candidate: { imageId, score: candidateScore },
+    current: current ? { imageId: current.imageId, score: currentScore } : null,
+  };
+
+  if (!outcome.assigned) {
+    logger.info('Existing assignment kept', {
+      cardId,
+      role,
+      currentImageId: outcome.currentImageId,
+      imageId,
+      currentScore: outcome.currentScore,
+      candidateScore: candidateScore.total,
+    });
+
+    await logIngestEvent({
+      cardId,
+      imageId,
+      eventType: 'assignment_kept_existing',
+      message: role,
+      metadata: decision,
+    });
+
+    return false;
+  }
+
+  logger.info('Assignment updated', {
+    cardId,
+    role,
+    imageId,
+    replacedImageId: current?.imageId,
+    currentScore: currentScore?.total,
+    candidateScore: candidateScore.total,
+    forced: decision.forced,
+  });
+
+  await logIngestEvent({
+    cardId,
+    imageId,
+    eventType: 'assigned',
+    message: role,
+    metadata: decision,
+  });
+
+  return true;
+}
@@ -0,0 +1,346 @@
+import sharp from 'sharp';
+import {
+  CollageChildResult,
+  CollageLayout,
+  IdentityVerification,
+  ImageJob,
+  ImageMetadata,
+  ImageSource,
+  PipelineStage,
+  ProcessResult,
+  Region,
+  SideDetectionResult,
+} from '../types.js';
+import { config } from '../config.js';
+import { logger } from '../utils/logger.js';
+import { computeSha256 } from '../utils/hash.js';
+import { timeStage } from '../utils/metrics.js';
+import { normalizeCard } from './crop.js';
+import { computePhash, shouldKeepExisting } from './phash.js';
+import { detectSide } from './detect-side.js';
+import { checkWithVision, shouldRunVisionCheck } from './vision.js';
+import { persistImage } from './persist.js';
+import { assignIfBetter } from './assign.js';
+import { analyzeQuality, findQualityIssues } from './quality.js';
+import { verifyCardIdentity } from './identity.js';
+import {
+  findImageBySha256,
+  findImagesByPhash,
+  getAssignmentStats,
+  setChildImages,
+  logIngestEvent,
+  markImageForReview,
+} from '../db/queries.js';
+
+export interface CollageContext {
+  job: ImageJob;
+  source: ImageSource | null;
+  trustTier: number;
+  sha256: string;
+  bytes: Buffer;
+  metadata: ImageMetadata;
+  layout: CollageLayout;
+  onStage?: (stage: PipelineStage) => void;
+}
+
+/**
+ * Store a collage as a parent image, then split each region into its own child image.
+ * Children go through side detection, hashing and dedup like any single-card image.
+ */
+export async function processCollage(ctx: CollageContext): Promise<ProcessResult> {
+  const { job, sha256, layout } = ctx;
+
+  const parentId = await persistImage({
+    cardId: job.cardId,
+    sha256,
+    phash: await computePhash(ctx.bytes),
+    original: { buffer: ctx.bytes, metadata: ctx.metadata },
+    working: { buffer: ctx.bytes, width: ctx.metadata.width },
+    trustTier: ctx.trustTier,
+    side: { side: 'unknown', confidence: 0.5, method: 'heuristic' },
+    isCollage: true,
+    onStage: ctx.onStage,
+  });
+
+  ctx.onStage?.('detecting');
+  const children: CollageChildResult[] = [];
+  // Working image of each region, for checks made once every region is known
+  const regionBuffers = new Map<number, Buffer>();
+  for (let index = 0; index < layout.regions.length; index++) {
+    try {
+      const { child, buffer } = await processRegion(ctx, parentId, layout.regions[index], index);
+      children.push(child);
+      regionBuffers.set(index, buffer);
+    } catch (error) {
+      logger.error('Collage region failed', {
+        parentId,
+        region: index,
+        error: error instanceof Error ? error.message : 'Unknown',
+      });
+    }
+  }
+
+  await setChildImages(parentId, children.map(child => child.imageId));
+
+  await logIngestEvent({
+    cardId: job.cardId,
+    imageId: parentId,
+    eventType: 'collage_split',
+    metadata: {
+      method: layout.method,
+      rows: layout.rows,
+      cols: layout.cols,
+      regions: layout.regions,
+      children: children.map(({ region, imageId, status, side, confidence, qualityIssues, identity }) => ({
+        region, imageId, status, side, confidence, qualityIssues, identity,
+      })),
+    },
+  });
+
+  // Assign confident fronts that pass the quality gates and identity check and weren't rejected in
+  // review: by position when the job lists the lot's cards, otherwise only when exactly one child
+  // qualifies and OCR reads the job's card number on it
+  ctx.onStage?.('assigning');
+  const confident = children.filter(
+    child =>
+      child.side === 'front' &&
+      child.confidence >= config.minConfidenceForAssignment &&
+      !child.qualityIssues?.length &&
+      child.identity?.verdict !== 'mismatch' &&
+      !child.rejectedInReview
+  );
+
+  let assignments: Array<{ child: CollageChildResult; cardId: string }> = [];
+  if (job.collageCardIds?.length) {
+    assignments = confident
+      .filter(child => job.collageCardIds?.[child.region])
+      .map(child => ({ child, cardId: job.collageCardIds![child.region] }));
+  } else if (confident.length === 1) {
+    const [candidate] = confident;
+    candidate.identity = await verifyLoneCandidate(ctx, regionBuffers.get(candidate.region));
+    if (candidate.identity) {
+      await logIngestEvent({
+        cardId: job.cardId,
+        imageId: candidate.imageId,
+        eventType: 'identity_checked',
+        message: candidate.identity.verdict,
+        metadata: { method: 'ocr', region: candidate.region, ...candidate.identity },
+      });
+    }
+
+    if (candidate.identity?.verdict === 'match') {
+      assignments = [{ child: candidate, cardId: job.cardId }];
+    } else if (candidate.status === 'created') {
+      logger.info('Lone collage front not verified as the job card', {
+        cardId: job.cardId,
+        imageId: candidate.imageId,
+        verdict: candidate.identity?.verdict ?? 'skipped',
+      });
+      await markImageForReview(
+        candidate.imageId,
+        job.cardId,
+        candidate.identity?.verdict === 'mismatch' ? 'wrong_card' : 'low_confidence'
+      );
+    }
+  }
+
+  // New regions that couldn't be trusted go to manual review for the card at their position
+  for (const child of children) {
+    if (child.status === 'created' && child.side !== 'back' && !confident.includes(child)) {
+      await markImageForReview(
+        child.imageId,
+        job.collageCardIds?.[child.region] ?? job.cardId,
+        child.identity?.verdict === 'mismatch'
+          ? 'wrong_card'
+          : child.qualityIssues?.length ? 'low_quality' : 'low_confidence'
+      );
+    }
+  }
+
+  let assignedCount = 0;
+  for (const { child, cardId } of assignments) {
+    const assigned = await assignIfBetter({
+      cardId,
+      imageId: child.imageId,
+      role: 'primary_front',
+      sourceId: ctx.source?.id,
+      sourceUrl: job.sourceUrl,
+      force: job.forceAssign,
+    });
+
+    if (assigned) {
+      child.assignedCardId = cardId;
+      assignedCount++;
+    }
+  }
+
+  logger.info('Collage processed', {
+    cardId: job.cardId,
+    parentId,
+    children: children.length,
+    assigned: assignedCount,
+  });
+
+  const forJobCard = children.find(child => child.assignedCardId === job.cardId);
+
+  if (assignments.length === 0) {
+    await logIngestEvent({
+      cardId: job.cardId,
+      imageId: parentId,
+      eventType: 'rejected',
+      message: `collage: ${confident.length} confident fronts in ${children.length} regions`,
+    });
+  }
+
+  return {
+    status: assignedCount > 0 ? 'completed' : 'rejected',
+    reason: assignedCount > 0 ? undefined : assignments.length > 0 ? 'kept_existing' : 'low_confidence',
+    imageId: parentId,
+    sha256,
+    role: forJobCard ? 'primary_front' : undefined,
+    detectedSide: forJobCard?.side,
+    confidence: forJobCard?.confidence,
+    children,
+    error: assignedCount > 0
+      ? undefined
+      : `Not assigned: collage with ${confident.length} confident fronts in ${children.length} regions`,
+  };
+}
+
+async function processRegion(
+  ctx: CollageContext,
+  parentId: string,
+  region: Region,
+  index: number
+): Promise<{ child: CollageChildResult; buffer: Buffer }> {
+  const childBytes = await sharp(ctx.bytes)
+    .rotate()
+    .extract(region)
+    .jpeg({ quality: 95 })
+    .toBuffer();
+  const childSha256 = computeSha256(childBytes);
+
+  const childMetadata: ImageMetadata = {
+    width: region.width,
+    height: region.height,
+    format: 'jpeg',
+    mime: 'image/jpeg',
+    size: childBytes.length,
+  };
+
+  let working = { buffer: childBytes, metadata: childMetadata };
+  const cropResult = ctx.trustTier >= config.cardCropMinTrustTier ? await normalizeCard(childBytes) : null;
+  if (cropResult?.applied) {
+    working = { buffer: cropResult.buffer, metadata: cropResult.metadata };
+  }
+
+  // Same lot photo seen before - reuse the child we already stored
+  const existing = await findImageBySha256(childSha256);
+  if (existing) {
+    const child = await reuseStoredImage(index, existing.id, 'deduplicated');
+    return { child: await checkRegionIdentity(ctx, working.buffer, child), buffer: working.buffer };
+  }
+
+  let side: SideDetectionResult = await timeStage('side', () => detectSide(working.buffer, working.metadata));
+  if (shouldRunVisionCheck(ctx.trustTier, side.confidence)) {
+    // The job's card number describes the lot, not this region, so don't ask about identity
+    const regionJob = { ...ctx.job, cardNumber: undefined, setCode: undefined };
+    const visionResult = await checkWithVision(working.buffer, regionJob);
+    if (visionResult.confidence > side.confidence) {
+      side = visionResult;
+    }
+  }
+
+  // Only fronts of the card listed at this position; the job's own card describes the whole lot
+  const phash = await computePhash(working.buffer);
+  const regionCardId = ctx.job.collageCardIds?.[index];
+  const [nearMatch] = side.side === 'front' && regionCardId
+    ? await findImagesByPhash(phash, config.phashMaxDistance, { cardId: regionCardId, side: 'front' })
+    : [];
+  if (nearMatch && shouldKeepExisting(nearMatch, { ...working.metadata, trustTier: ctx.trustTier })) {
+    const child = await reuseStoredImage(index, nearMatch.id, 'near_duplicate');
+    return { child: await checkRegionIdentity(ctx, working.buffer, child), buffer: working.buffer };
+  }
+
+  const quality = await analyzeQuality(working.buffer);
+  const imageId = await persistImage({
+    cardId: ctx.job.cardId,
+    sha256: childSha256,
+    phash,
+    original: { buffer: childBytes, metadata: childMetadata },
+    working: { buffer: working.buffer, width: working.metadata.width },
+    trustTier: ctx.trustTier,
+    side,
+    isCollage: false,
+    quality,
+    crop: cropResult?.applied ? cropResult.quad : undefined,
+    parentImageId: parentId,
+  });
+
+  const child = await checkRegionIdentity(ctx, working.buffer, {
+    region: index,
+    imageId,
+    status: 'created',
+    side: side.side,
+    confidence: side.confidence,
+    qualityIssues: findQualityIssues(quality),
+  });
+  return { child, buffer: working.buffer };
+}
+
+/**
+ * A region that matches a stored image is judged as that image: its side, confidence, quality and review decision
+ */
+async function reuseStoredImage(
+  region: number,
+  imageId: string,
+  status: 'deduplicated' | 'near_duplicate'
+): Promise<CollageChildResult> {
+  const stored = await getAssignmentStats(imageId);
+  return {
+    region,
+    imageId,
+    status,
+    side: stored?.detectedSide ?? 'unknown',
+    confidence: stored?.sideConfidence ?? 0,
+    qualityIssues: stored?.quality ? findQualityIssues(stored.quality) : undefined,
+    rejectedInReview: stored?.reviewStatus === 'rejected',
+  };
+}
+
+/**
+ * OCR a front's collector number against the one listed for its position, like the single-card identity check
+ */
+async function checkRegionIdentity(
+  ctx: CollageContext,
+  buffer: Buffer,
+  child: CollageChildResult
+): Promise<CollageChildResult> {
+  const expected = ctx.job.collageCardNumbers?.[child.region];
+  if (!config.ocrEnabled || !expected || ctx.trustTier < config.ocrMinTrustTier || child.side !== 'front') {
+    return child;
+  }
+
+  child.identity = await verifyCardIdentity(buffer, expected);
+  if (child.identity.verdict === 'mismatch') {
+    logger.warn('Collage region identity mismatch', {
+      region: child.region,
+      imageId: child.imageId,
+      expected: child.identity.expected,
+      read: child.identity.read,
+    });
+  }
+
+  return child;
+}
+
+/**
+ * OCR the lone confident front of a lot that lists no cards against the job's card number.
+ * Undefined when there is nothing to check against, which leaves the front unverified.
+ */
+async function verifyLoneCandidate(ctx: CollageContext, buffer?: Buffer): Promise<IdentityVerification | undefined> {
+  if (!config.ocrEnabled || !ctx.job.cardNumber || !buffer) {
+    return undefined;
+  }
+  return verifyCardIdentity(buffer, ctx.job.cardNumber);
+}
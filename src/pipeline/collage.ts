@@ -1,68 +1,214 @@
 import sharp from 'sharp';
+import { CollageLayout, Region } from '../types.js';
 import { logger } from '../utils/logger.js';
+import { findComponents, getOrientedSize, segmentForeground } from './segment.js';
+
+// Single card aspect ratio is ~0.716
+const CARD_ASPECT_RATIO = 0.716;
+const REGION_ASPECT_TOLERANCE = 0.25;
+const MIN_REGION_AREA = 0.02; // Fraction of the image - ignores price stickers, sleeves' edges etc.
+const MIN_FRAME_BACKGROUND = 0.7; // Below this the edges are cards, not a table or mat
+// A card on a mat fills its bounding box; shapes inside one card's artwork (its border read as the
+// background) don't. Passes cards up to about 3 degrees off straight; more tilted lots are still
+// found once looksLikeCollage agrees
+const MIN_SOLID_FILL = 0.85;
+const SEGMENT_SIZE = 320;
+const MAX_GRID = 6;
+
+const NOT_COLLAGE: CollageLayout = { isCollage: false, regions: [] };
 
 /**
- * Detect if an image is a collage (multiple cards in one image)
- * Uses edge detection and aspect ratio analysis
+ * Detect if an image is a collage (multiple cards in one image) and where each card is.
+ * Segments the image first: two or more solid card-shaped regions on a background make a lot,
+ * whatever the image's shape. Otherwise edge and aspect ratio analysis decide, then the cards are
+ * located by segmentation, or on an even grid when there is no background.
  */
-export async function detectCollage(buffer: Buffer): Promise<boolean> {
+export async function detectCollage(buffer: Buffer): Promise<CollageLayout> {
   try {
-    // Get image metadata
-    const metadata = await sharp(buffer).metadata();
-    if (!metadata.width || !metadata.height) return false;
+    // Cards laid out on a background - each one is its own foreground region
+    const candidates = await findCardRegions(buffer);
 
-    const aspectRatio = metadata.width / metadata.height;
+    const solid = candidates?.filter(candidate => candidate.fill >= MIN_SOLID_FILL) ?? [];
+    if (solid.length >= 2) {
+      logger.info('Collage detected by segmentation', { count: solid.length });
+      return { isCollage: true, method: 'components', regions: solid.map(toRegion) };
+    }
 
-    // Quick check: very wide/tall images are likely collages
-    // Single card aspect ratio is ~0.716
-    if (aspectRatio > 1.5 || aspectRatio < 0.4) {
-      logger.info('Collage detected by aspect ratio', { aspectRatio });
-      return true;
+    if (!(await looksLikeCollage(buffer))) {
+      return NOT_COLLAGE;
     }
 
-    // For borderline cases, analyze edge patterns
-    // Convert to grayscale and detect vertical edges
-    const edges = await sharp(buffer)
-      .grayscale()
-      .resize(200, Math.round(200 / aspectRatio), { fit: 'fill' })
-      .convolve({
-        width: 3,
-        height: 3,
-        kernel: [-1, 0, 1, -2, 0, 2, -1, 0, 1], // Sobel vertical
-      })
-      .raw()
-      .toBuffer();
-
-    // Count strong vertical edges in middle section
-    const width = 200;
-    const height = Math.round(200 / aspectRatio);
-    const middleStart = Math.floor(width * 0.2);
-    const middleEnd = Math.floor(width * 0.8);
-
-    let strongEdgeColumns = 0;
-    const threshold = 100;
-
-    for (let x = middleStart; x < middleEnd; x++) {
-      let columnSum = 0;
-      for (let y = 0; y < height; y++) {
-        columnSum += edges[y * width + x];
-      }
-      if (columnSum / height > threshold) {
-        strongEdgeColumns++;
-      }
+    const regions = candidates?.map(toRegion) ?? null;
+
+    if (regions?.length === 0) {
+      // Background found but nothing card-shaped on it - a grid would only cut up a single image
+      logger.info('Collage ruled out: no card regions');
+      return NOT_COLLAGE;
     }
 
-    // If there are multiple strong vertical lines, likely a collage
-    const edgeRatio = strongEdgeColumns / (middleEnd - middleStart);
-    const isCollage = edgeRatio > 0.15; // More than 15% of columns have strong edges
+    if (regions?.length === 1) {
+      // One card photographed on a wide background, not a lot
+      logger.info('Collage ruled out: single card region');
+      return NOT_COLLAGE;
+    }
 
-    if (isCollage) {
-      logger.info('Collage detected by edge analysis', { edgeRatio });
+    if (regions) {
+      logger.info('Collage regions found', { count: regions.length });
+      return { isCollage: true, method: 'components', regions };
     }
 
-    return isCollage;
+    // No background around the edges: cards touching each other (scanned sheets) - fall back to an even grid
+    const { width, height } = await getOrientedSize(buffer);
+    const { rows, cols } = estimateGrid(width / height);
+    logger.info('Collage grid estimated', { rows, cols });
+
+    return { isCollage: true, method: 'grid', rows, cols, regions: gridRegions(width, height, rows, cols) };
   } catch (error) {
     logger.error('Collage detection failed', { error: error instanceof Error ? error.message : 'Unknown' });
-    return false; // Default to not collage on error
+    return NOT_COLLAGE; // Default to not collage on error
+  }
+}
+
+async function looksLikeCollage(buffer: Buffer): Promise<boolean> {
+  // Get image metadata
+  const metadata = await sharp(buffer).metadata();
+  if (!metadata.width || !metadata.height) return false;
+
+  const aspectRatio = metadata.width / metadata.height;
+
+  // Quick check: very wide/tall images are likely collages
+  if (aspectRatio > 1.5 || aspectRatio < 0.4) {
+    logger.info('Collage detected by aspect ratio', { aspectRatio });
+    return true;
   }
+
+  // For borderline cases, analyze edge patterns
+  // Convert to grayscale and detect vertical edges
+  const edges = await sharp(buffer)
+    .grayscale()
+    .resize(200, Math.round(200 / aspectRatio), { fit: 'fill' })
+    .convolve({
+      width: 3,
+      height: 3,
+      kernel: [-1, 0, 1, -2, 0, 2, -1, 0, 1], // Sobel vertical
+    })
+    .raw()
+    .toBuffer();
+
+  // Count strong vertical edges in middle section
+  const width = 200;
+  const height = Math.round(200 / aspectRatio);
+  const middleStart = Math.floor(width * 0.2);
+  const middleEnd = Math.floor(width * 0.8);
+
+  let strongEdgeColumns = 0;
+  const threshold = 100;
+
+  for (let x = middleStart; x < middleEnd; x++) {
+    let columnSum = 0;
+    for (let y = 0; y < height; y++) {
+      columnSum += edges[y * width + x];
+    }
+    if (columnSum / height > threshold) {
+      strongEdgeColumns++;
+    }
+  }
+
+  // If there are multiple strong vertical lines, likely a collage
+  const edgeRatio = strongEdgeColumns / (middleEnd - middleStart);
+  const isCollage = edgeRatio > 0.15; // More than 15% of columns have strong edges
+
+  if (isCollage) {
+    logger.info('Collage detected by edge analysis', { edgeRatio });
+  }
+
+  return isCollage;
+}
+
+/**
+ * Card-shaped foreground regions in reading order (top-to-bottom, left-to-right), with the
+ * fraction of each bounding box the region covers. Null when the image has no background frame
+ * to segment against.
+ */
+async function findCardRegions(buffer: Buffer): Promise<Array<Region & { fill: number }> | null> {
+  const { mask, width, height, scale, frameBackground } = await segmentForeground(buffer, SEGMENT_SIZE);
+  if (frameBackground < MIN_FRAME_BACKGROUND) return null;
+
+  const cards = findComponents(mask, width, height).filter(component => {
+    const w = component.right - component.left + 1;
+    const h = component.bottom - component.top + 1;
+    const ratio = Math.min(w, h) / Math.max(w, h);
+    return (w * h) / (width * height) >= MIN_REGION_AREA &&
+      Math.abs(ratio - CARD_ASPECT_RATIO) <= REGION_ASPECT_TOLERANCE;
+  });
+
+  if (cards.length === 0) return [];
+
+  // Group into rows: a card starts a new row once its top is half a card below the row's first card
+  const rowTolerance = Math.min(...cards.map(c => c.bottom - c.top)) / 2;
+  const rows: typeof cards[] = [];
+  for (const card of [...cards].sort((a, b) => a.top - b.top)) {
+    const row = rows[rows.length - 1];
+    if (row && card.top - row[0].top <= rowTolerance) {
+      row.push(card);
+    } else {
+      rows.push([card]);
+    }
+  }
+
+  // Rounding each edge separately can overshoot the image by a pixel, which extract() rejects
+  const image = await getOrientedSize(buffer);
+  return rows.flatMap(row => row.sort((a, b) => a.left - b.left)).map(component => {
+    const left = Math.round(component.left * scale);
+    const top = Math.round(component.top * scale);
+    const width = component.right - component.left + 1;
+    const height = component.bottom - component.top + 1;
+    return {
+      left,
+      top,
+      width: Math.min(Math.round(width * scale), image.width - left),
+      height: Math.min(Math.round(height * scale), image.height - top),
+      fill: component.pixels.length / (width * height),
+    };
+  });
+}
+
+function toRegion({ left, top, width, height }: Region): Region {
+  return { left, top, width, height };
+}
+
+/**
+ * Pick the rows x cols grid (at least 2 cells) whose cell shape is closest to a card
+ */
+function estimateGrid(aspectRatio: number): { rows: number; cols: number } {
+  let best = { rows: 1, cols: 2 };
+  let bestError = Infinity;
+
+  for (let rows = 1; rows <= MAX_GRID; rows++) {
+    for (let cols = 1; cols <= MAX_GRID; cols++) {
+      if (rows * cols < 2) continue;
+      const cellRatio = (aspectRatio * rows) / cols;
+      const error = Math.abs(Math.log(cellRatio / CARD_ASPECT_RATIO));
+      if (error < bestError) {
+        bestError = error;
+        best = { rows, cols };
+      }
+    }
+  }
+
+  return best;
+}
+
+function gridRegions(width: number, height: number, rows: number, cols: number): Region[] {
+  const regions: Region[] = [];
+  const cellWidth = Math.floor(width / cols);
+  const cellHeight = Math.floor(height / rows);
+
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      regions.push({ left: col * cellWidth, top: row * cellHeight, width: cellWidth, height: cellHeight });
+    }
+  }
+
+  return regions;
 }
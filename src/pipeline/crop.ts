@@ -0,0 +1,250 @@
+import sharp from 'sharp';
+import { CardQuad, ImageMetadata, Point } from '../types.js';
+import { logger } from '../utils/logger.js';
+import { findComponents, getOrientedSize, segmentForeground } from './segment.js';
+
+// Card is 63mm x 88mm
+const CARD_ASPECT_RATIO = 63 / 88;
+const ASPECT_RATIO_TOLERANCE = 0.2; // Generous - perspective skews the apparent ratio
+// A whole image this close to 63x88 is a scan - its border would be mistaken for background
+const SCAN_ASPECT_RATIO_TOLERANCE = 0.03;
+
+const DETECT_SIZE = 256; // Long side of the segmentation thumbnail
+const WARP_SOURCE_MAX = 2400; // Long side of the image we sample from when warping
+const MAX_OUTPUT_HEIGHT = 1600;
+
+const MIN_COVERAGE = 0.15; // Smaller than this and we probably found a sleeve or a logo
+const MAX_COVERAGE = 0.97;
+const TIGHT_CROP_COVERAGE = 0.9;
+const TIGHT_CROP_ROTATION = 2; // degrees
+const MIN_FRAME_BACKGROUND = 0.7;
+
+export type CropResult =
+  | { applied: true; buffer: Buffer; metadata: ImageMetadata; quad: CardQuad }
+  | { applied: false; reason: string; quad?: CardQuad };
+
+/**
+ * Find the card in a photo (background, rotation, perspective), then deskew and crop it to 63x88.
+ * Tightly cropped scans are left alone.
+ */
+export async function normalizeCard(buffer: Buffer): Promise<CropResult> {
+  try {
+    const { width, height } = await getOrientedSize(buffer);
+    if (Math.abs(width / height - CARD_ASPECT_RATIO) <= SCAN_ASPECT_RATIO_TOLERANCE) {
+      return { applied: false, reason: 'already_cropped' };
+    }
+
+    const quad = await detectCardQuad(buffer);
+    if (!quad) {
+      return { applied: false, reason: 'no_card_found' };
+    }
+
+    if (quad.coverage >= TIGHT_CROP_COVERAGE && Math.abs(quad.rotation) < TIGHT_CROP_ROTATION) {
+      return { applied: false, reason: 'already_cropped', quad };
+    }
+
+    const warped = await warpToCard(buffer, quad.corners);
+
+    logger.info('Card cropped', {
+      boundingBox: quad.boundingBox,
+      rotation: quad.rotation,
+      coverage: quad.coverage,
+      width: warped.width,
+      height: warped.height,
+    });
+
+    return {
+      applied: true,
+      buffer: warped.buffer,
+      metadata: {
+        width: warped.width,
+        height: warped.height,
+        format: 'jpeg',
+        mime: 'image/jpeg',
+        size: warped.buffer.length,
+      },
+      quad,
+    };
+  } catch (error) {
+    logger.error('Card crop failed', { error: error instanceof Error ? error.message : 'Unknown' });
+    return { applied: false, reason: 'error' };
+  }
+}
+
+/**
+ * Segment the card from its background and return its four corners in (auto-oriented) pixel coordinates
+ */
+export async function detectCardQuad(buffer: Buffer): Promise<CardQuad | null> {
+  const { mask, width, height, scale, frameBackground } = await segmentForeground(buffer, DETECT_SIZE);
+
+  // The image edges aren't a uniform background, so there's nothing to segment against
+  if (frameBackground < MIN_FRAME_BACKGROUND) {
+    return null;
+  }
+
+  // Largest connected foreground region is taken to be the card
+  const [largest] = findComponents(mask, width, height);
+  if (!largest) {
+    return null;
+  }
+
+  // Corners from extreme diagonal projections
+  const pixels = largest.pixels;
+  let tl = pixels[0], tr = pixels[0], br = pixels[0], bl = pixels[0];
+  for (const p of pixels) {
+    if (p.x + p.y < tl.x + tl.y) tl = p;
+    if (p.x + p.y > br.x + br.y) br = p;
+    if (p.x - p.y > tr.x - tr.y) tr = p;
+    if (p.x - p.y < bl.x - bl.y) bl = p;
+  }
+
+  let corners: [Point, Point, Point, Point] = [tl, tr, br, bl];
+
+  // Card lying sideways - rotate the corner order so the long edge becomes the height
+  if (distance(tl, tr) > distance(tl, bl)) {
+    corners = [bl, tl, tr, br];
+  }
+
+  const [c0, c1, c2, c3] = corners;
+  const quadWidth = (distance(c0, c1) + distance(c3, c2)) / 2;
+  const quadHeight = (distance(c0, c3) + distance(c1, c2)) / 2;
+  const ratio = quadWidth / quadHeight;
+  const coverage = polygonArea(corners) / (width * height);
+
+  if (coverage < MIN_COVERAGE || coverage > MAX_COVERAGE ||
+      Math.abs(ratio - CARD_ASPECT_RATIO) > ASPECT_RATIO_TOLERANCE) {
+    logger.debug('Card quad rejected', { coverage, ratio });
+    return null;
+  }
+
+  const rotation = (Math.atan2(c1.y - c0.y, c1.x - c0.x) * 180) / Math.PI;
+  const toSource = (p: Point): Point => ({ x: Math.round(p.x * scale), y: Math.round(p.y * scale) });
+
+  return {
+    corners: corners.map(toSource) as [Point, Point, Point, Point],
+    boundingBox: {
+      left: Math.round(largest.left * scale),
+      top: Math.round(largest.top * scale),
+      width: Math.round((largest.right - largest.left + 1) * scale),
+      height: Math.round((largest.bottom - largest.top + 1) * scale),
+    },
+    rotation: Math.round(rotation * 10) / 10,
+    coverage: Math.round(coverage * 1000) / 1000,
+  };
+}
+
+/**
+ * Perspective-warp the quadrilateral (tl, tr, br, bl) onto an upright 63x88 rectangle
+ */
+export async function warpToCard(
+  buffer: Buffer,
+  corners: [Point, Point, Point, Point]
+): Promise<{ buffer: Buffer; width: number; height: number }> {
+  const orientedSize = await getOrientedSize(buffer);
+  const longSide = Math.max(orientedSize.width, orientedSize.height);
+  const sourceScale = Math.min(1, WARP_SOURCE_MAX / longSide);
+
+  const { data: source, info } = await sharp(buffer)
+    .rotate()
+    .resize(Math.round(orientedSize.width * sourceScale), Math.round(orientedSize.height * sourceScale), { fit: 'fill' })
+    .removeAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const scaled = corners.map(p => ({ x: p.x * sourceScale, y: p.y * sourceScale })) as typeof corners;
+
+  const edgeHeight = Math.max(distance(scaled[0], scaled[3]), distance(scaled[1], scaled[2]));
+  const outHeight = Math.round(Math.min(MAX_OUTPUT_HEIGHT, edgeHeight));
+  const outWidth = Math.round(outHeight * CARD_ASPECT_RATIO);
+
+  // Homography from output rectangle to source quad
+  const h = solveHomography(
+    [{ x: 0, y: 0 }, { x: outWidth - 1, y: 0 }, { x: outWidth - 1, y: outHeight - 1 }, { x: 0, y: outHeight - 1 }],
+    scaled
+  );
+
+  const out = Buffer.alloc(outWidth * outHeight * 3);
+  for (let v = 0; v < outHeight; v++) {
+    for (let u = 0; u < outWidth; u++) {
+      const w = h[6] * u + h[7] * v + 1;
+      const x = (h[0] * u + h[1] * v + h[2]) / w;
+      const y = (h[3] * u + h[4] * v + h[5]) / w;
+      sampleBilinear(source, info.width, info.height, x, y, out, (v * outWidth + u) * 3);
+    }
+  }
+
+  const encoded = await sharp(out, { raw: { width: outWidth, height: outHeight, channels: 3 } })
+    .jpeg({ quality: 95 })
+    .toBuffer();
+
+  return { buffer: encoded, width: outWidth, height: outHeight };
+}
+
+function distance(a: Point, b: Point): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+function polygonArea(points: Point[]): number {
+  let area = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    area += a.x * b.y - b.x * a.y;
+  }
+  return Math.abs(area) / 2;
+}
+
+/**
+ * Solve the 8 homography coefficients mapping each `from` point onto the matching `to` point
+ */
+function solveHomography(from: Point[], to: Point[]): number[] {
+  const a: number[][] = [];
+  for (let i = 0; i < 4; i++) {
+    const { x: u, y: v } = from[i];
+    const { x, y } = to[i];
+    a.push([u, v, 1, 0, 0, 0, -u * x, -v * x, x]);
+    a.push([0, 0, 0, u, v, 1, -u * y, -v * y, y]);
+  }
+
+  // Gaussian elimination with partial pivoting
+  for (let col = 0; col < 8; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < 8; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+
+    for (let row = 0; row < 8; row++) {
+      if (row === col) continue;
+      const factor = a[row][col] / a[col][col];
+      for (let k = col; k < 9; k++) {
+        a[row][k] -= factor * a[col][k];
+      }
+    }
+  }
+
+  return a.map((row, i) => row[8] / row[i]);
+}
+
+function sampleBilinear(
+  source: Buffer,
+  width: number,
+  height: number,
+  x: number,
+  y: number,
+  out: Buffer,
+  offset: number
+): void {
+  const x0 = Math.max(0, Math.min(width - 1, Math.floor(x)));
+  const y0 = Math.max(0, Math.min(height - 1, Math.floor(y)));
+  const x1 = Math.min(width - 1, x0 + 1);
+  const y1 = Math.min(height - 1, y0 + 1);
+  const fx = Math.max(0, Math.min(1, x - x0));
+  const fy = Math.max(0, Math.min(1, y - y0));
+
+  for (let c = 0; c < 3; c++) {
+    const top = source[(y0 * width + x0) * 3 + c] * (1 - fx) + source[(y0 * width + x1) * 3 + c] * fx;
+    const bottom = source[(y1 * width + x0) * 3 + c] * (1 - fx) + source[(y1 * width + x1) * 3 + c] * fx;
+    out[offset + c] = Math.round(top * (1 - fy) + bottom * fy);
+  }
+}
@@ -2,9 +2,15 @@ import sharp from 'sharp';
 import { ImageMetadata } from '../types.js';
 import { config } from '../config.js';
 import { logger } from '../utils/logger.js';
+import { sniffImageType } from '../utils/sniff.js';
 
 export async function decodeImage(buffer: Buffer): Promise<{ ok: true; metadata: ImageMetadata } | { ok: false; error: string }> {
   try {
+    const sniffed = sniffImageType(buffer);
+    if (!sniffed) {
+      return { ok: false, error: 'Unsupported or unrecognised image format' };
+    }
+
     const image = sharp(buffer);
     const metadata = await image.metadata();
 
@@ -22,7 +28,8 @@ export async function decodeImage(buffer: Buffer): Promise<{ ok: true; metadata:
       metadata: {
         width: metadata.width,
         height: metadata.height,
-        format: metadata.format || 'unknown',
+        format: sniffed.format,
+        mime: sniffed.mime,
         size: buffer.length,
       },
     };
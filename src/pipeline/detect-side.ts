@@ -1,12 +1,43 @@
 import sharp from 'sharp';
-import { SideDetectionResult, ImageMetadata } from '../types.js';
+import { BackDesign, SideDetectionResult, ImageMetadata } from '../types.js';
 import { logger } from '../utils/logger.js';
+import { extractSideFeatures, loadSideModel, predictSide } from './side-model.js';
 
 // Pokemon card aspect ratio is approximately 63mm x 88mm = 0.716
 const EXPECTED_CARD_ASPECT_RATIO = 0.716;
 const ASPECT_RATIO_TOLERANCE = 0.08; // Allow 8% variance
 
+// The international back has the yellow "Pokémon" logo inside the blue frame;
+// Japanese (and Korean/Chinese) backs are logo-free
+const INTERNATIONAL_LOGO_YELLOW_RATIO = 0.03;
+
+/**
+ * Classify the side with the trained model when one is available, else the hand-tuned heuristic
+ */
 export async function detectSide(buffer: Buffer, metadata: ImageMetadata): Promise<SideDetectionResult> {
+  const model = await loadSideModel();
+  if (!model) {
+    return detectSideHeuristic(buffer, metadata);
+  }
+
+  try {
+    const result = predictSide(model, await extractSideFeatures(buffer));
+
+    // The model only separates fronts from backs; the logo check still tells back designs apart
+    if (result.side === 'back') {
+      const { interiorYellowRatio } = await analyzeBorderColors(buffer);
+      result.backDesign = interiorYellowRatio >= INTERNATIONAL_LOGO_YELLOW_RATIO ? 'international' : 'japanese';
+    }
+
+    logger.info('Side detection result', { ...result });
+    return result;
+  } catch (error) {
+    logger.error('Side model failed, using heuristic', { error: error instanceof Error ? error.message : 'Unknown' });
+    return detectSideHeuristic(buffer, metadata);
+  }
+}
+
+export async function detectSideHeuristic(buffer: Buffer, metadata: ImageMetadata): Promise<SideDetectionResult> {
   try {
     let score = 0;
     const reasons: string[] = [];
@@ -36,6 +67,7 @@ export async function detectSide(buffer: Buffer, metadata: ImageMetadata): Promi
 
     // 3. Determine side based on score
     let side: 'front' | 'back' | 'unknown';
+    let backDesign: BackDesign | undefined;
     let confidence: number;
 
     if (score >= 0.3) {
@@ -44,6 +76,9 @@ export async function detectSide(buffer: Buffer, metadata: ImageMetadata): Promi
     } else if (score <= -0.3) {
       side = 'back';
       confidence = Math.min(0.95, 0.5 + Math.abs(score));
+      backDesign = borderAnalysis.interiorYellowRatio >= INTERNATIONAL_LOGO_YELLOW_RATIO
+        ? 'international'
+        : 'japanese';
     } else {
       side = 'unknown';
       confidence = 0.5;
@@ -55,12 +90,14 @@ export async function detectSide(buffer: Buffer, metadata: ImageMetadata): Promi
       score,
       reasons,
       aspectRatio,
+      backDesign,
     });
 
     return {
       side,
       confidence,
       method: 'heuristic',
+      backDesign,
     };
   } catch (error) {
     logger.error('Side detection failed', { error: error instanceof Error ? error.message : 'Unknown' });
@@ -77,12 +114,14 @@ interface BorderAnalysis {
   hasYellowBorder: boolean;
   hasVariedColors: boolean;
   dominantHue: number;
+  interiorYellowRatio: number;
 }
 
 async function analyzeBorderColors(buffer: Buffer): Promise<BorderAnalysis> {
   // Downscale to 64x64 for analysis
   const small = await sharp(buffer)
     .resize(64, 64, { fit: 'fill' })
+    .removeAlpha()
     .raw()
     .toBuffer();
 
@@ -92,7 +131,29 @@ async function analyzeBorderColors(buffer: Buffer): Promise<BorderAnalysis> {
   // Analyze colors
   const analysis = analyzePixelColors(borderPixels);
 
-  return analysis;
+  return { ...analysis, interiorYellowRatio: yellowRatio(extractInteriorPixels(small, 64, 64)) };
+}
+
+function extractInteriorPixels(buffer: Buffer, width: number, height: number): Array<{ r: number; g: number; b: number }> {
+  const pixels: Array<{ r: number; g: number; b: number }> = [];
+  const borderSize = Math.floor(width * 0.1);
+
+  for (let y = borderSize; y < height - borderSize; y++) {
+    for (let x = borderSize; x < width - borderSize; x++) {
+      const idx = (y * width + x) * 3;
+      pixels.push({ r: buffer[idx], g: buffer[idx + 1], b: buffer[idx + 2] });
+    }
+  }
+
+  return pixels;
+}
+
+function isYellow(r: number, g: number, b: number): boolean {
+  return r > 180 && g > 150 && b < 100;
+}
+
+function yellowRatio(pixels: Array<{ r: number; g: number; b: number }>): number {
+  return pixels.filter(({ r, g, b }) => isYellow(r, g, b)).length / pixels.length;
 }
 
 function extractBorderPixels(buffer: Buffer, width: number, height: number): Array<{ r: number; g: number; b: number }> {
@@ -119,7 +180,9 @@ function extractBorderPixels(buffer: Buffer, width: number, height: number): Arr
   return pixels;
 }
 
-function analyzePixelColors(pixels: Array<{ r: number; g: number; b: number }>): BorderAnalysis {
+function analyzePixelColors(
+  pixels: Array<{ r: number; g: number; b: number }>
+): Omit<BorderAnalysis, 'interiorYellowRatio'> {
   let blueCount = 0;
   let yellowCount = 0;
   let totalHue = 0;
@@ -129,13 +192,13 @@ function analyzePixelColors(pixels: Array<{ r: number; g: number; b: number }>):
     const { r, g, b } = pixel;
 
     // Check for blue (Pokemon card back is distinctive blue)
-    // RGB roughly (28, 107, 175) to (50, 130, 200)
-    if (b > 120 && b > r * 1.5 && b > g * 1.2) {
+    // RGB roughly (28, 107, 175) to (50, 130, 200); Japanese backs are a darker navy
+    if ((b > 120 && b > r * 1.5 && b > g * 1.2) || (b > 80 && b > r * 1.6 && b > g * 1.3)) {
       blueCount++;
     }
 
     // Check for yellow (common border color on fronts)
-    if (r > 180 && g > 150 && b < 100) {
+    if (isYellow(r, g, b)) {
       yellowCount++;
     }
 
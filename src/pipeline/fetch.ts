@@ -1,47 +1,170 @@
-import { FetchResult, KNOWN_ERROR_PAYLOADS } from '../types.js';
+import { Agent, fetch, Response } from 'undici';
+import { FetchErrorKind, FetchResult, FetchValidators, KNOWN_ERROR_PAYLOADS } from '../types.js';
+import { config } from '../config.js';
 import { logger } from '../utils/logger.js';
+import { normalizeContentType, sniffImageType } from '../utils/sniff.js';
+import { BlockedAddressError, checkUrlTarget, guardedLookup } from './source-policy.js';
 
 const FETCH_TIMEOUT_MS = 30_000;
+const MAX_REDIRECTS = 5;
+
+// CDNs often serve valid images with a generic type; the bytes decide
+const GENERIC_CONTENT_TYPES = ['', 'application/octet-stream', 'binary/octet-stream'];
+
+// Transient failures worth another attempt; everything else is final
+const RETRYABLE_ERRORS: FetchErrorKind[] = ['network', 'timeout', 'http_server'];
+
+// Every connection re-checks the address it actually connects to (DNS rebinding)
+const guardedAgent = new Agent({ connect: { lookup: guardedLookup } });
+
+class ResponseTooLargeError extends Error {
+  constructor(limit: number) {
+    super(`Response exceeds ${limit} bytes`);
+    this.name = 'ResponseTooLargeError';
+  }
+}
+
+export async function fetchImage(
+  url: string,
+  sourceName?: string,
+  validators?: FetchValidators | null
+): Promise<FetchResult> {
+  let result: FetchResult = { ok: false, error: 'Not attempted' };
+
+  for (let attempt = 0; attempt <= config.fetchMaxRetries; attempt++) {
+    if (attempt > 0) {
+      // Full jitter: uniform delay up to base * 2^attempt
+      const delay = Math.round(Math.random() * config.fetchRetryBaseMs * 2 ** attempt);
+      logger.warn('Retrying fetch', { url, attempt, delay, errorKind: result.errorKind, error: result.error });
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+
+    result = await fetchOnce(url, sourceName, validators);
+
+    if (result.ok || !isRetryableFetchError(result)) {
+      return { ...result, attempts: attempt + 1 };
+    }
+  }
+
+  return { ...result, attempts: config.fetchMaxRetries + 1 };
+}
+
+/**
+ * Whether a failed fetch could succeed if tried again later (network, timeout, 5xx)
+ */
+export function isRetryableFetchError(result: FetchResult): boolean {
+  return result.errorKind !== undefined && RETRYABLE_ERRORS.includes(result.errorKind);
+}
+
+async function fetchOnce(
+  url: string,
+  sourceName?: string,
+  validators?: FetchValidators | null
+): Promise<FetchResult> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
 
-export async function fetchImage(url: string, sourceName?: string): Promise<FetchResult> {
   try {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+    const headers: Record<string, string> = {
+      'User-Agent': 'Bourdain-Image-Worker/1.0',
+      'Accept': 'image/*',
+    };
+    if (validators?.etag) headers['If-None-Match'] = validators.etag;
+    if (validators?.lastModified) headers['If-Modified-Since'] = validators.lastModified;
 
-    const response = await fetch(url, {
-      signal: controller.signal,
-      headers: {
-        'User-Agent': 'Bourdain-Image-Worker/1.0',
-        'Accept': 'image/*',
-      },
-    });
+    // Follow redirects by hand so every hop's resolved address is checked
+    let currentUrl = url;
+    let response: Response | null = null;
 
-    clearTimeout(timeoutId);
+    for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+      const target = await checkUrlTarget(currentUrl);
+      if (!target.ok) {
+        logger.warn('Fetch blocked by source policy', { url: currentUrl, reason: target.reason });
+        return { ok: false, error: target.message, errorKind: 'policy', policyDenial: target.reason };
+      }
+
+      response = await fetch(currentUrl, {
+        signal: controller.signal,
+        redirect: 'manual',
+        headers,
+        dispatcher: guardedAgent,
+      });
+
+      const location = response.headers.get('location');
+      if (response.status < 300 || response.status >= 400 || response.status === 304 || !location) {
+        break;
+      }
+
+      await response.body?.cancel();
+      currentUrl = new URL(location, currentUrl).toString();
+      response = null;
+    }
+
+    if (!response) {
+      return {
+        ok: false,
+        error: `More than ${MAX_REDIRECTS} redirects`,
+        errorKind: 'policy',
+        policyDenial: 'too_many_redirects',
+      };
+    }
+
+    if (response.status === 304) {
+      return { ok: false, notModified: true, httpStatus: 304 };
+    }
 
     if (!response.ok) {
+      await response.body?.cancel();
       return {
         ok: false,
         error: `HTTP ${response.status}`,
+        errorKind: response.status >= 500 || response.status === 408 ? 'http_server' : 'http_client',
+        httpStatus: response.status,
+        retryAfterMs: parseRetryAfter(response.headers.get('retry-after')),
+      };
+    }
+
+    const declaredContentType = normalizeContentType(response.headers.get('content-type') || '');
+    if (!declaredContentType.startsWith('image/') && !GENERIC_CONTENT_TYPES.includes(declaredContentType)) {
+      await response.body?.cancel();
+      return {
+        ok: false,
+        error: `Invalid content type: ${declaredContentType}`,
+        errorKind: 'invalid_content',
         httpStatus: response.status,
       };
     }
 
-    const contentType = response.headers.get('content-type') || '';
-    if (!contentType.startsWith('image/')) {
+    // Refuse up front when the server tells us the body is too big
+    const contentLength = Number(response.headers.get('content-length'));
+    if (contentLength > config.maxFetchBytes) {
+      await response.body?.cancel();
       return {
         ok: false,
-        error: `Invalid content type: ${contentType}`,
+        error: `Content-Length ${contentLength} exceeds ${config.maxFetchBytes} bytes`,
+        errorKind: 'too_large',
         httpStatus: response.status,
       };
     }
 
-    const bytes = Buffer.from(await response.arrayBuffer());
+    const bytes = await readBodyWithLimit(response, config.maxFetchBytes);
+
+    const sniffed = sniffImageType(bytes);
+    if (!sniffed) {
+      return {
+        ok: false,
+        error: `Unrecognised image data (declared ${declaredContentType || 'no content type'})`,
+        errorKind: 'invalid_content',
+        httpStatus: response.status,
+      };
+    }
 
     // Check for known error payloads
     if (sourceName && isKnownErrorPayload(bytes, sourceName)) {
       return {
         ok: false,
         error: 'known_error_payload',
+        errorKind: 'invalid_content',
         httpStatus: response.status,
       };
     }
@@ -49,18 +172,83 @@ export async function fetchImage(url: string, sourceName?: string): Promise<Fetc
     return {
       ok: true,
       bytes,
-      contentType,
+      contentType: sniffed.mime,
+      declaredContentType,
       httpStatus: response.status,
+      etag: response.headers.get('etag') ?? undefined,
+      lastModified: response.headers.get('last-modified') ?? undefined,
     };
   } catch (error) {
+    // undici wraps connect errors as the cause of "fetch failed"
+    const cause = error instanceof Error ? error.cause : undefined;
+    if (cause instanceof BlockedAddressError) {
+      logger.warn('Fetch blocked by source policy', { url, reason: 'private_address', address: cause.address });
+      return { ok: false, error: cause.message, errorKind: 'policy', policyDenial: 'private_address' };
+    }
+
     const message = error instanceof Error ? error.message : 'Unknown error';
     logger.error('Fetch failed', { url, error: message });
 
     return {
       ok: false,
       error: message,
+      errorKind: classifyError(error),
     };
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Stream the body into memory, aborting as soon as it grows past the limit
+ */
+async function readBodyWithLimit(response: Response, limit: number): Promise<Buffer> {
+  if (!response.body) {
+    return Buffer.alloc(0);
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    total += value.byteLength;
+    if (total > limit) {
+      await reader.cancel();
+      throw new ResponseTooLargeError(limit);
+    }
+    chunks.push(value);
+  }
+
+  return Buffer.concat(chunks, total);
+}
+
+function classifyError(error: unknown): FetchErrorKind {
+  if (error instanceof ResponseTooLargeError) return 'too_large';
+  if (error instanceof Error && error.name === 'AbortError') return 'timeout';
+  return 'network';
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date) into milliseconds
+ */
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
   }
+
+  return undefined;
 }
 
 export function isKnownErrorPayload(bytes: Buffer, sourceName: string): boolean {
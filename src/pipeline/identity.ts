@@ -0,0 +1,119 @@
+import path from 'path';
+import sharp from 'sharp';
+import { createWorker, OEM, PSM, Worker } from 'tesseract.js';
+import { config } from '../config.js';
+import { logger } from '../utils/logger.js';
+import { IdentityVerification } from '../types.js';
+
+// Collector numbers sit in the bottom strip of the card (left on modern cards, right on older ones)
+const NUMBER_STRIP_TOP = 0.88;
+// Upscale the strip so the small print is comfortably above Tesseract's minimum glyph size
+const OCR_STRIP_WIDTH = 1600;
+
+// "025/165", "TG05/TG30", "SWSH123" style numbers; letters cover promo and subset prefixes
+const COLLECTOR_NUMBER = /\b([A-Z]{0,4}\d{1,3}[A-Z]?)\s*\/\s*([A-Z]{0,4}\d{1,3})\b/;
+const PROMO_NUMBER = /\b([A-Z]{2,5}\d{1,3})\b/;
+
+let workerPromise: Promise<Worker> | null = null;
+
+function getWorker(): Promise<Worker> {
+  if (!workerPromise) {
+    const langPath = config.ocrLangPath ||
+      path.join(path.dirname(require.resolve('@tesseract.js-data/eng/package.json')), '4.0.0_best_int');
+
+    workerPromise = (async () => {
+      const worker = await createWorker('eng', OEM.LSTM_ONLY, { langPath, gzip: true, cacheMethod: 'none' });
+      // No character whitelist: the strip also holds the illustrator and copyright lines,
+      // and forcing those into digits produces phantom numbers
+      await worker.setParameters({ tessedit_pageseg_mode: PSM.SPARSE_TEXT });
+      return worker;
+    })();
+
+    // Let the next call retry rather than caching a failed start-up forever
+    workerPromise.catch(() => {
+      workerPromise = null;
+    });
+  }
+  return workerPromise;
+}
+
+/**
+ * Read the collector number from the bottom of a card front and compare it to the expected one
+ */
+export async function verifyCardIdentity(buffer: Buffer, expectedNumber: string): Promise<IdentityVerification> {
+  const expected = parseCollectorNumber(expectedNumber.toUpperCase());
+  if (!expected) {
+    return { verdict: 'unreadable', expected: expectedNumber, read: null, confidence: 0, error: 'Unparseable expected number' };
+  }
+
+  try {
+    const strip = await extractNumberStrip(buffer);
+    const worker = await getWorker();
+    const { data } = await worker.recognize(strip);
+
+    const read = parseCollectorNumber(data.text.toUpperCase());
+    const confidence = Math.round(data.confidence) / 100;
+
+    if (!read) {
+      return { verdict: 'unreadable', expected: expectedNumber, read: null, confidence };
+    }
+
+    // Only compare the set total when both sides have one (promos and job numbers often don't)
+    const numberMatches = read.number === expected.number;
+    const totalMatches = !read.total || !expected.total || read.total === expected.total;
+    const matches = numberMatches && totalMatches;
+
+    // A shaky read isn't strong enough evidence to call the card wrong
+    if (!matches && confidence < config.ocrMinConfidence) {
+      return { verdict: 'unreadable', expected: expectedNumber, read: null, confidence };
+    }
+
+    return {
+      verdict: matches ? 'match' : 'mismatch',
+      expected: expectedNumber,
+      read: read.total ? `${read.number}/${read.total}` : read.number,
+      confidence,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown';
+    logger.error('Collector number OCR failed', { error: message });
+    return { verdict: 'unreadable', expected: expectedNumber, read: null, confidence: 0, error: message };
+  }
+}
+
+/**
+ * Bottom strip of the card, greyscale, contrast-stretched and upscaled for OCR
+ */
+async function extractNumberStrip(buffer: Buffer): Promise<Buffer> {
+  const oriented = await sharp(buffer).rotate().toBuffer({ resolveWithObject: true });
+  const { width, height } = oriented.info;
+  const top = Math.floor(height * NUMBER_STRIP_TOP);
+
+  return sharp(oriented.data)
+    .extract({ left: 0, top, width, height: height - top })
+    .greyscale()
+    .normalise()
+    .resize({ width: OCR_STRIP_WIDTH })
+    .png()
+    .toBuffer();
+}
+
+/**
+ * Pull "number/total" (or a bare promo number) out of text, with leading zeros dropped
+ */
+export function parseCollectorNumber(text: string): { number: string; total?: string } | null {
+  // OCR commonly reads a zero next to other digits as the letter O
+  text = text.replace(/O(?=\d)|(?<=\d)O/g, '0');
+
+  const full = COLLECTOR_NUMBER.exec(text);
+  if (full) {
+    return { number: stripLeadingZeros(full[1]), total: stripLeadingZeros(full[2]) };
+  }
+
+  const bare = /^\s*([A-Z]{0,5}\d{1,3}[A-Z]?)\s*$/.exec(text) ?? PROMO_NUMBER.exec(text);
+  return bare ? { number: stripLeadingZeros(bare[1]) } : null;
+}
+
+function stripLeadingZeros(value: string): string {
+  return value.replace(/^([A-Z]*)0+(?=\d)/, '$1');
+}
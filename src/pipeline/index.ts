@@ -1,29 +1,79 @@
-import { ImageJob, ProcessResult, SideDetectionResult } from '../types.js';
+import {
+  CardQuad,
+  IdentityVerification,
+  ImageJob,
+  ImageSource,
+  PipelineStage,
+  ProcessResult,
+  VisionCheckResult,
+} from '../types.js';
 import { config } from '../config.js';
-import { logger } from '../utils/logger.js';
+import { addLogContext, logger } from '../utils/logger.js';
 import { computeSha256 } from '../utils/hash.js';
-import { tryAcquire, initBucket, getWaitTime } from '../utils/rate-limit.js';
+import { getRateLimiter } from '../utils/rate-limit.js';
+import { metrics, timeStage } from '../utils/metrics.js';
+import { withSpan } from '../utils/tracing.js';
 
-import { fetchImage } from './fetch.js';
+import { fetchImage, isRetryableFetchError } from './fetch.js';
 import { decodeImage } from './decode.js';
 import { detectSide } from './detect-side.js';
 import { detectCollage } from './collage.js';
+import { normalizeCard } from './crop.js';
+import { processCollage } from './collage-split.js';
+import { persistImage } from './persist.js';
+import { assignIfBetter, roleForSide } from './assign.js';
+import { analyzeQuality, findQualityIssues } from './quality.js';
+import { verifyCardIdentity } from './identity.js';
+import { computePhash, shouldKeepExisting } from './phash.js';
+import { checkSourcePolicy } from './source-policy.js';
 import { checkWithVision, shouldRunVisionCheck } from './vision.js';
-import { generateDerivatives } from '../storage/derivatives.js';
-import { uploadDerivatives } from '../storage/upload.js';
 
 import {
   findImageBySha256,
+  findImagesByPhash,
+  getFetchValidators,
+  saveFetchValidators,
   getImageSource,
   getImageSourceByName,
-  createImageRecord,
-  updateImageStatus,
-  createDerivativeRecord,
-  assignImageToCard,
+  getAssignmentStats,
   logIngestEvent,
+  markImageForReview,
 } from '../db/queries.js';
 
-export async function processImage(job: ImageJob): Promise<ProcessResult> {
+export async function processImage(
+  job: ImageJob,
+  onStage?: (stage: PipelineStage) => void
+): Promise<ProcessResult> {
+  // 1. Get source info for rate limiting and trust tier
+  let source = job.sourceId ? await getImageSource(job.sourceId) : null;
+  if (!source && job.sourceName) {
+    source = await getImageSourceByName(job.sourceName);
+  }
+
+  const sourceName = source?.name ?? job.sourceName ?? 'unknown';
+
+  metrics.jobsInFlight.inc();
+  try {
+    return await withSpan('processImage', async span => {
+      const result = await runPipeline(job, source, onStage);
+      span.setAttributes({
+        'job.status': result.status,
+        ...(result.reason ? { 'job.reason': result.reason } : {}),
+        ...(result.imageId ? { 'image.id': result.imageId } : {}),
+      });
+      metrics.jobs.inc({ status: result.status, source: sourceName });
+      return result;
+    }, { 'card.id': job.cardId, 'source.name': sourceName, 'source.url': job.sourceUrl });
+  } finally {
+    metrics.jobsInFlight.dec();
+  }
+}
+
+async function runPipeline(
+  job: ImageJob,
+  source: ImageSource | null,
+  onStage?: (stage: PipelineStage) => void
+): Promise<ProcessResult> {
   const startTime = Date.now();
 
   logger.info('Processing image job', {
@@ -40,27 +90,65 @@ export async function processImage(job: ImageJob): Promise<ProcessResult> {
   });
 
   try {
-    // 1. Get source info for rate limiting and trust tier
-    let source = job.sourceId ? await getImageSource(job.sourceId) : null;
-    if (!source && job.sourceName) {
-      source = await getImageSourceByName(job.sourceName);
-    }
-
     const trustTier = source?.trustTier ?? job.trustTier ?? 3;
     const sourceName = source?.name ?? job.sourceName ?? 'unknown';
+    addLogContext({ source: sourceName });
+
+    // 2. Source policy - allowlist and host match before any network access
+    const policy = checkSourcePolicy(job, source);
+    if (!policy.ok) {
+      logger.warn('Job rejected by source policy', { cardId: job.cardId, reason: policy.reason });
+      await logIngestEvent({
+        cardId: job.cardId,
+        eventType: `policy_${policy.reason}`,
+        message: policy.message,
+      });
+      return { status: 'rejected', reason: policy.reason, error: policy.message };
+    }
 
-    // 2. Check rate limit
+    // 3. Check rate limit
     if (source) {
-      initBucket(source.id, source.maxRps);
-      if (!tryAcquire(source.id)) {
-        const waitTime = getWaitTime(source.id);
-        logger.warn('Rate limited', { sourceId: source.id, waitTime });
-        return { status: 'rate_limited', error: `Rate limited, retry after ${waitTime}ms` };
+      const { allowed, waitMs } = await withSpan('pipeline.rate_limit', () =>
+        getRateLimiter().tryAcquire(source.id, source.maxRps)
+      );
+      if (!allowed) {
+        logger.warn('Rate limited', { sourceId: source.id, waitTime: waitMs });
+        metrics.rateLimitDenials.inc({ source: sourceName, reason: 'local' });
+        return { status: 'rate_limited', error: `Rate limited, retry after ${waitMs}ms`, retryAfterMs: waitMs };
       }
     }
 
-    // 3. Fetch image
-    const fetchResult = await fetchImage(job.sourceUrl, sourceName);
+    // 4. Fetch image
+    onStage?.('fetching');
+    // Conditional request only when the last fetch of this URL stored an image for this card;
+    // otherwise a 304 would leave the job with nothing to assign
+    const validators = await getFetchValidators(job.sourceUrl);
+    const previous = validators?.sha256 && validators.cardId === job.cardId
+      ? await findImageBySha256(validators.sha256)
+      : null;
+    const fetchResult = await timeStage('fetch', () =>
+      fetchImage(job.sourceUrl, sourceName, previous ? validators : null)
+    );
+
+    if (fetchResult.policyDenial) {
+      await logIngestEvent({
+        cardId: job.cardId,
+        eventType: `policy_${fetchResult.policyDenial}`,
+        message: fetchResult.error,
+      });
+      return { status: 'rejected', reason: fetchResult.policyDenial, error: fetchResult.error };
+    }
+
+    if (fetchResult.notModified && previous) {
+      logger.info('Source unchanged since last fetch', { sourceUrl: job.sourceUrl, imageId: previous.id });
+      await logIngestEvent({
+        cardId: job.cardId,
+        imageId: previous.id,
+        eventType: 'not_modified',
+        httpStatus: fetchResult.httpStatus,
+      });
+      return { status: 'not_modified', imageId: previous.id, sha256: validators?.sha256 };
+    }
 
     if (!fetchResult.ok || !fetchResult.bytes) {
       await logIngestEvent({
@@ -68,43 +156,72 @@ export async function processImage(job: ImageJob): Promise<ProcessResult> {
         eventType: 'fetch_failed',
         message: fetchResult.error,
         httpStatus: fetchResult.httpStatus,
+        metadata: { errorKind: fetchResult.errorKind, attempts: fetchResult.attempts },
       });
-      return { status: 'failed', error: fetchResult.error };
+
+      // Source told us to back off - pause its bucket for every replica and retry later
+      if (fetchResult.httpStatus === 429) {
+        const retryAfterMs = fetchResult.retryAfterMs ?? config.defaultRetryAfterMs;
+        metrics.rateLimitDenials.inc({ source: sourceName, reason: 'upstream_429' });
+        if (source) {
+          await getRateLimiter().deferUntil(source.id, Date.now() + retryAfterMs);
+        }
+        return { status: 'rate_limited', error: fetchResult.error, retryAfterMs };
+      }
+
+      return { status: 'failed', error: fetchResult.error, retryable: isRetryableFetchError(fetchResult) };
     }
 
+    metrics.bytesFetched.inc({ source: sourceName }, fetchResult.bytes.length);
     await logIngestEvent({
       cardId: job.cardId,
       eventType: 'fetch_completed',
       httpStatus: fetchResult.httpStatus,
-      metadata: { bytes: fetchResult.bytes.length, contentType: fetchResult.contentType },
+      metadata: {
+        bytes: fetchResult.bytes.length,
+        contentType: fetchResult.contentType,
+        declaredContentType: fetchResult.declaredContentType,
+        contentTypeMismatch: fetchResult.declaredContentType !== fetchResult.contentType,
+        attempts: fetchResult.attempts,
+      },
     });
 
-    // 4. Compute SHA256 for deduplication
-    const sha256 = computeSha256(fetchResult.bytes);
+    // 5. Compute SHA256 for deduplication
+    const { bytes } = fetchResult;
+    const sha256 = computeSha256(bytes);
+    addLogContext({ sha256 });
+
+    // Only called once an image row with this sha256 exists, so a later 304 has an image to point at
+    const saveValidators = async () => {
+      if (fetchResult.etag || fetchResult.lastModified) {
+        await saveFetchValidators(job.sourceUrl, {
+          etag: fetchResult.etag,
+          lastModified: fetchResult.lastModified,
+          sha256,
+          cardId: job.cardId,
+        });
+      }
+    };
 
-    const existing = await findImageBySha256(sha256);
+    const existing = await withSpan('pipeline.dedup', () => findImageBySha256(sha256));
     if (existing) {
       logger.info('Image deduplicated', { sha256, existingId: existing.id });
+      await saveValidators();
       await logIngestEvent({
         cardId: job.cardId,
         imageId: existing.id,
         eventType: 'deduplicated',
       });
 
-      // Still assign to card if not already assigned
-      await assignImageToCard({
-        cardId: job.cardId,
-        imageId: existing.id,
-        role: 'primary_front',
-        sourceId: source?.id,
-        sourceUrl: job.sourceUrl,
-      });
+      // Still assign to card when the stored image qualifies for a role and beats the current one
+      await assignStoredImage(job, source, existing.id);
 
       return { status: 'deduplicated', imageId: existing.id, sha256 };
     }
 
-    // 5. Decode and validate dimensions
-    const decodeResult = await decodeImage(fetchResult.bytes);
+    // 6. Decode and validate dimensions
+    onStage?.('decoding');
+    const decodeResult = await timeStage('decode', () => decodeImage(bytes));
     if (!decodeResult.ok) {
       await logIngestEvent({
         cardId: job.cardId,
@@ -116,16 +233,47 @@ export async function processImage(job: ImageJob): Promise<ProcessResult> {
 
     const { metadata } = decodeResult;
 
-    // 6. Side detection (heuristics)
-    let sideResult: SideDetectionResult = await detectSide(fetchResult.bytes, metadata);
+    // 7. Collage detection (before cropping, so a lot photo isn't cropped down to one card)
+    const layout = await withSpan('pipeline.collage_detect', () => detectCollage(bytes));
 
-    // 7. Collage detection
-    const isCollage = await detectCollage(fetchResult.bytes);
+    if (layout.isCollage) {
+      await logIngestEvent({ cardId: job.cardId, eventType: 'processing_started' });
+      const collageResult = await withSpan('pipeline.collage', () => processCollage({
+        job,
+        source,
+        trustTier,
+        sha256,
+        bytes,
+        metadata,
+        layout,
+        onStage,
+      }), { 'collage.regions': layout.regions.length });
+      await saveValidators();
+      return collageResult;
+    }
+
+    // 8. Crop and deskew photographed cards; everything downstream works on the normalised image
+    let imageBuffer = bytes;
+    let imageMetadata = metadata;
+    let crop: CardQuad | undefined;
+
+    if (trustTier >= config.cardCropMinTrustTier) {
+      const cropResult = await withSpan('pipeline.crop', () => normalizeCard(bytes));
+      if (cropResult.applied) {
+        imageBuffer = cropResult.buffer;
+        imageMetadata = cropResult.metadata;
+        crop = cropResult.quad;
+      }
+    }
 
-    // 8. Vision fallback if needed
+    // 9. Side detection (heuristics)
+    onStage?.('detecting');
+    let sideResult: VisionCheckResult = await timeStage('side', () => detectSide(imageBuffer, imageMetadata));
+
+    // 10. Vision fallback if needed
     if (shouldRunVisionCheck(trustTier, sideResult.confidence)) {
       logger.info('Running vision check', { trustTier, currentConfidence: sideResult.confidence });
-      const visionResult = await checkWithVision(fetchResult.bytes, job, trustTier);
+      const visionResult = await withSpan('pipeline.vision', () => checkWithVision(imageBuffer, job));
 
       // Use vision result if it provides higher confidence
       if (visionResult.confidence > sideResult.confidence) {
@@ -133,6 +281,128 @@ export async function processImage(job: ImageJob): Promise<ProcessResult> {
       }
     }
 
+    // 10b. Quality analysis (blur, compression, glare, overlays) on the image we'd keep
+    const quality = await withSpan('pipeline.quality', () => analyzeQuality(imageBuffer));
+    const qualityIssues = findQualityIssues(quality);
+
+    // 10c. Identity check: read the collector number off confident fronts from less trusted sources
+    let identity: IdentityVerification | undefined;
+    if (
+      config.ocrEnabled &&
+      job.cardNumber &&
+      trustTier >= config.ocrMinTrustTier &&
+      sideResult.side === 'front'
+    ) {
+      const cardNumber = job.cardNumber;
+      identity = await withSpan('pipeline.identity', () => verifyCardIdentity(imageBuffer, cardNumber));
+
+      await logIngestEvent({
+        cardId: job.cardId,
+        eventType: 'identity_checked',
+        message: identity.verdict,
+        metadata: { method: 'ocr', ...identity, sourceId: source?.id, sourceUrl: job.sourceUrl },
+      });
+
+      if (identity.verdict === 'mismatch') {
+        logger.warn('Card identity mismatch', {
+          cardId: job.cardId,
+          sourceId: source?.id,
+          sourceUrl: job.sourceUrl,
+          expected: identity.expected,
+          read: identity.read,
+        });
+
+        return {
+          status: 'rejected',
+          reason: 'wrong_card',
+          sha256,
+          detectedSide: sideResult.side,
+          confidence: sideResult.confidence,
+          identity,
+          error: `Wrong card: expected ${identity.expected}, read ${identity.read}`,
+        };
+      }
+    }
+
+    // The vision model's identity answer decides when OCR couldn't read the number or didn't run.
+    // Backs carry no card-specific identity, so only a front can be rejected as the wrong card
+    const visionAnalysis = sideResult.analysis;
+    if (
+      sideResult.side === 'front' &&
+      identity?.verdict !== 'match' &&
+      visionAnalysis?.identityMatch === 'mismatch' &&
+      visionAnalysis.confidence >= config.minConfidenceForAssignment
+    ) {
+      logger.warn('Card identity mismatch reported by vision', {
+        cardId: job.cardId,
+        sourceId: source?.id,
+        sourceUrl: job.sourceUrl,
+      });
+
+      await logIngestEvent({
+        cardId: job.cardId,
+        eventType: 'identity_checked',
+        message: 'mismatch',
+        metadata: { method: 'vision', analysis: visionAnalysis, sourceId: source?.id, sourceUrl: job.sourceUrl },
+      });
+
+      return {
+        status: 'rejected',
+        reason: 'wrong_card',
+        sha256,
+        detectedSide: sideResult.side,
+        confidence: sideResult.confidence,
+        identity,
+        error: `Wrong card: vision model reports a card other than ${job.cardNumber ?? job.setCode}`,
+      };
+    }
+
+    // 10d. Perceptual hash for near-duplicate detection (re-encoded copies of the same art).
+    // Only against this card's fronts: backs share one design, so their hashes match across cards
+    const { phash, nearMatch } = await withSpan('pipeline.near_duplicate', async () => {
+      const phash = await computePhash(imageBuffer);
+      const [nearMatch] = sideResult.side === 'front'
+        ? await findImagesByPhash(phash, config.phashMaxDistance, { cardId: job.cardId, side: 'front' })
+        : [];
+      return { phash, nearMatch };
+    });
+
+    if (nearMatch) {
+      const keepExisting = shouldKeepExisting(nearMatch, {
+        width: imageMetadata.width,
+        height: imageMetadata.height,
+        trustTier,
+      });
+
+      logger.info('Near-duplicate found', {
+        phash,
+        existingId: nearMatch.id,
+        distance: nearMatch.distance,
+        kept: keepExisting ? 'existing' : 'new',
+      });
+
+      await logIngestEvent({
+        cardId: job.cardId,
+        imageId: nearMatch.id,
+        eventType: 'near_duplicate',
+        metadata: {
+          phash,
+          distance: nearMatch.distance,
+          kept: keepExisting ? 'existing' : 'new',
+          existing: { width: nearMatch.width, height: nearMatch.height, trustTier: nearMatch.trustTier },
+          candidate: { width: imageMetadata.width, height: imageMetadata.height, trustTier },
+        },
+      });
+
+      if (keepExisting) {
+        await assignStoredImage(job, source, nearMatch.id);
+
+        return { status: 'near_duplicate', imageId: nearMatch.id, duplicateOf: nearMatch.id, sha256 };
+      }
+    }
+
+    const duplicateOf = nearMatch?.id;
+
     await logIngestEvent({
       cardId: job.cardId,
       eventType: 'validation_passed',
@@ -141,61 +411,38 @@ export async function processImage(job: ImageJob): Promise<ProcessResult> {
         height: metadata.height,
         side: sideResult.side,
         confidence: sideResult.confidence,
-        isCollage,
+        isCollage: false,
         method: sideResult.method,
+        vision: sideResult.analysis,
+        quality,
+        qualityIssues,
+        crop: crop && {
+          boundingBox: crop.boundingBox,
+          rotation: crop.rotation,
+          corners: crop.corners,
+          outputWidth: imageMetadata.width,
+          outputHeight: imageMetadata.height,
+        },
       },
     });
 
-    // 9. Create image record
+    // 11. Store original, create image record and derivatives
     await logIngestEvent({ cardId: job.cardId, eventType: 'processing_started' });
 
-    const imageId = await createImageRecord({
-      sha256,
-      originalMime: fetchResult.contentType || 'image/unknown',
-      originalWidth: metadata.width,
-      originalHeight: metadata.height,
-      originalBytes: fetchResult.bytes.length,
-      status: 'processing',
-      detectedSide: sideResult.side,
-      sideConfidence: sideResult.confidence,
-      isCollage,
-      detectedMethod: sideResult.method,
-    });
-
-    // 10. Generate derivatives
-    const derivatives = await generateDerivatives(fetchResult.bytes, sha256, metadata.width);
-
-    await logIngestEvent({
-      cardId: job.cardId,
-      imageId,
-      eventType: 'derivatives_generated',
-      metadata: { count: derivatives.length },
-    });
-
-    // 11. Upload derivatives
-    await uploadDerivatives(derivatives);
-
-    await logIngestEvent({
+    const imageId = await withSpan('pipeline.persist', () => persistImage({
       cardId: job.cardId,
-      imageId,
-      eventType: 'upload_completed',
-    });
-
-    // 12. Record derivatives in database
-    for (const derivative of derivatives) {
-      await createDerivativeRecord({
-        imageId,
-        variant: derivative.variant,
-        format: 'webp',
-        width: derivative.width,
-        height: derivative.height,
-        bytes: derivative.bytes,
-        storagePath: derivative.storagePath,
-      });
-    }
-
-    // 13. Update image status to completed
-    await updateImageStatus(imageId, 'completed');
+      sha256,
+      phash,
+      original: { buffer: bytes, metadata },
+      working: { buffer: imageBuffer, width: imageMetadata.width },
+      trustTier,
+      side: sideResult,
+      isCollage: false,
+      quality,
+      crop,
+      onStage,
+    }));
+    await saveValidators();
 
     await logIngestEvent({
       cardId: job.cardId,
@@ -204,31 +451,25 @@ export async function processImage(job: ImageJob): Promise<ProcessResult> {
       metadata: { elapsed_ms: Date.now() - startTime },
     });
 
-    // 14. Assign to card if valid (front, high confidence, not collage)
-    const canAssign =
-      sideResult.side === 'front' &&
-      sideResult.confidence >= config.minConfidenceForAssignment &&
-      !isCollage;
+    // 12. Assign to card if valid (known side, high confidence, passes quality gates) and it beats the current image
+    onStage?.('assigning');
+    const role = roleForSide(sideResult.side, sideResult.confidence);
+    const qualityOk = qualityIssues.length === 0;
 
-    if (canAssign) {
-      await assignImageToCard({
-        cardId: job.cardId,
-        imageId,
-        role: 'primary_front',
-        sourceId: source?.id,
-        sourceUrl: job.sourceUrl,
-      });
-
-      await logIngestEvent({
-        cardId: job.cardId,
-        imageId,
-        eventType: 'assigned',
-        message: 'primary_front',
-      });
+    const assigned = role !== null && qualityOk && await withSpan('pipeline.assign', () => assignIfBetter({
+      cardId: job.cardId,
+      imageId,
+      role,
+      sourceId: source?.id,
+      sourceUrl: job.sourceUrl,
+      force: job.forceAssign,
+    }));
 
+    if (assigned) {
       logger.info('Image assigned to card', {
         cardId: job.cardId,
         imageId,
+        role,
         side: sideResult.side,
         confidence: sideResult.confidence,
       });
@@ -237,32 +478,58 @@ export async function processImage(job: ImageJob): Promise<ProcessResult> {
         status: 'completed',
         imageId,
         sha256,
+        duplicateOf,
+        role: role ?? undefined,
         detectedSide: sideResult.side,
         confidence: sideResult.confidence,
+        backDesign: sideResult.backDesign,
+        quality,
+        qualityIssues,
+        identity,
       };
     } else {
-      await logIngestEvent({
-        cardId: job.cardId,
-        imageId,
-        eventType: 'rejected',
-        message: `side=${sideResult.side}, confidence=${sideResult.confidence}, isCollage=${isCollage}`,
-      });
+      const reason = !role ? 'low_confidence' : !qualityOk ? 'low_quality' : 'kept_existing';
+      const error = reason === 'low_confidence'
+        ? `Not assigned: side=${sideResult.side}, confidence=${sideResult.confidence.toFixed(2)}`
+        : reason === 'low_quality'
+          ? `Not assigned: quality issues (${qualityIssues.join(', ')})`
+          : `Not assigned: existing ${role} image scores higher`;
+
+      // Kept-existing decisions are logged by assignIfBetter
+      if (reason !== 'kept_existing') {
+        await logIngestEvent({
+          cardId: job.cardId,
+          imageId,
+          eventType: 'rejected',
+          message: reason === 'low_quality'
+            ? `quality: ${qualityIssues.join(', ')}`
+            : `side=${sideResult.side}, confidence=${sideResult.confidence}`,
+          metadata: reason === 'low_quality' ? { quality, qualityIssues } : undefined,
+        });
+        await markImageForReview(imageId, job.cardId, reason);
+      }
 
       logger.info('Image processed but not assigned', {
         cardId: job.cardId,
         imageId,
+        reason,
         side: sideResult.side,
         confidence: sideResult.confidence,
-        isCollage,
       });
 
       return {
         status: 'rejected',
+        reason,
         imageId,
         sha256,
+        duplicateOf,
         detectedSide: sideResult.side,
         confidence: sideResult.confidence,
-        error: `Not assigned: side=${sideResult.side}, confidence=${sideResult.confidence.toFixed(2)}, isCollage=${isCollage}`,
+        backDesign: sideResult.backDesign,
+        quality,
+        qualityIssues,
+        identity,
+        error,
       };
     }
   } catch (error) {
@@ -275,6 +542,40 @@ export async function processImage(job: ImageJob): Promise<ProcessResult> {
       message,
     });
 
-    return { status: 'failed', error: message };
+    // Unexpected errors past the fetch are mostly storage or the database being unavailable
+    return { status: 'failed', error: message, retryable: true };
+  }
+}
+
+/**
+ * Assign an image stored by an earlier job (exact or near duplicate of this one) under the same
+ * gates as a new image: a confident side and no quality issues, then it has to beat the current one.
+ * An image a reviewer rejected is never assigned again automatically.
+ */
+async function assignStoredImage(job: ImageJob, source: ImageSource | null, imageId: string): Promise<void> {
+  const stored = await getAssignmentStats(imageId);
+  const role = stored && roleForSide(stored.detectedSide, stored.sideConfidence);
+  if (!stored || !role) {
+    return;
   }
+
+  if (stored.reviewStatus === 'rejected') {
+    logger.info('Stored image not assigned: rejected in review', { cardId: job.cardId, imageId });
+    return;
+  }
+
+  const qualityIssues = stored.quality ? findQualityIssues(stored.quality) : [];
+  if (qualityIssues.length > 0) {
+    logger.info('Stored image not assigned: quality issues', { cardId: job.cardId, imageId, qualityIssues });
+    return;
+  }
+
+  await assignIfBetter({
+    cardId: job.cardId,
+    imageId,
+    role,
+    sourceId: source?.id,
+    sourceUrl: job.sourceUrl,
+    force: job.forceAssign,
+  });
 }
@@ -0,0 +1,97 @@
+import { CardQuad, ImageMetadata, ImageQuality, PipelineStage, SideDetectionResult } from '../types.js';
+import { getOriginalStoragePath } from '../utils/hash.js';
+import { timeStage } from '../utils/metrics.js';
+import { generateDerivatives } from '../storage/derivatives.js';
+import { uploadDerivatives, uploadOriginal } from '../storage/upload.js';
+import {
+  createImageRecord,
+  createDerivativeRecord,
+  updateImageStatus,
+  logIngestEvent,
+} from '../db/queries.js';
+
+export interface PersistImageParams {
+  cardId: string;
+  sha256: string;
+  phash?: string;
+  // Bytes kept as the original (what regeneration starts from)
+  original: { buffer: Buffer; metadata: ImageMetadata };
+  // Image the derivatives are made from - the original, or its cropped/normalised version
+  working: { buffer: Buffer; width: number };
+  trustTier: number;
+  side: SideDetectionResult;
+  isCollage: boolean;
+  quality?: ImageQuality;
+  crop?: CardQuad;
+  parentImageId?: string;
+  onStage?: (stage: PipelineStage) => void;
+}
+
+/**
+ * Store the original, create the image record, then generate, upload and record derivatives
+ */
+export async function persistImage(params: PersistImageParams): Promise<string> {
+  const { cardId, sha256, original, working, side } = params;
+
+  // Keep the original so derivatives can be rebuilt without re-fetching from the source
+  const originalStoragePath = getOriginalStoragePath(sha256, original.metadata.format);
+  await uploadOriginal(originalStoragePath, original.buffer, original.metadata.mime);
+
+  const imageId = await createImageRecord({
+    sha256,
+    phash: params.phash,
+    originalMime: original.metadata.mime,
+    originalWidth: original.metadata.width,
+    originalHeight: original.metadata.height,
+    originalBytes: original.buffer.length,
+    originalStoragePath,
+    sourceTrustTier: params.trustTier,
+    status: 'processing',
+    detectedSide: side.side,
+    sideConfidence: side.confidence,
+    isCollage: params.isCollage,
+    detectedMethod: side.method,
+    backDesign: side.backDesign,
+    quality: params.quality,
+    cropRegion: params.crop,
+    parentImageId: params.parentImageId,
+  });
+
+  // Generate derivatives
+  params.onStage?.('generating_derivatives');
+  const derivatives = await timeStage('derivatives', () => generateDerivatives(working.buffer, sha256, working.width));
+
+  await logIngestEvent({
+    cardId,
+    imageId,
+    eventType: 'derivatives_generated',
+    metadata: { count: derivatives.length },
+  });
+
+  // Upload derivatives
+  params.onStage?.('uploading');
+  await uploadDerivatives(derivatives);
+
+  await logIngestEvent({
+    cardId,
+    imageId,
+    eventType: 'upload_completed',
+  });
+
+  // Record derivatives in database
+  for (const derivative of derivatives) {
+    await createDerivativeRecord({
+      imageId,
+      variant: derivative.variant,
+      format: derivative.format,
+      width: derivative.width,
+      height: derivative.height,
+      bytes: derivative.bytes,
+      storagePath: derivative.storagePath,
+    });
+  }
+
+  await updateImageStatus(imageId, 'completed');
+
+  return imageId;
+}
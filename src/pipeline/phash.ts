@@ -0,0 +1,91 @@
+import sharp from 'sharp';
+import { NearDuplicateMatch } from '../types.js';
+
+// dHash compares each pixel to its right-hand neighbour on a 9x8 grayscale thumbnail,
+// giving a 64-bit hash that survives re-encoding, resizing and mild colour shifts
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+// The thumbnail is taken from a normalised copy: resized without JPEG shrink-on-load (which
+// decodes at a reduced scale that differs per encoder) and slightly blurred, so compression noise
+// doesn't flip neighbouring comparisons
+const NORMALISED_SIZE = 64;
+const NORMALISE_BLUR_SIGMA = 1;
+
+/**
+ * Compute a 64-bit difference hash (dHash) as a 16 character hex string
+ */
+export async function computePhash(buffer: Buffer): Promise<string> {
+  const normalised = await sharp(buffer)
+    .grayscale()
+    .resize(NORMALISED_SIZE, NORMALISED_SIZE, { fit: 'fill', fastShrinkOnLoad: false })
+    .blur(NORMALISE_BLUR_SIGMA)
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const pixels = await sharp(normalised.data, { raw: normalised.info })
+    .grayscale()
+    .resize(HASH_WIDTH, HASH_HEIGHT, { fit: 'fill' })
+    .raw()
+    .toBuffer();
+
+  let hex = '';
+  let nibble = 0;
+  let bitCount = 0;
+
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    for (let x = 0; x < HASH_WIDTH - 1; x++) {
+      const left = pixels[y * HASH_WIDTH + x];
+      const right = pixels[y * HASH_WIDTH + x + 1];
+
+      nibble = (nibble << 1) | (left > right ? 1 : 0);
+      bitCount++;
+
+      if (bitCount === 4) {
+        hex += nibble.toString(16);
+        nibble = 0;
+        bitCount = 0;
+      }
+    }
+  }
+
+  return hex;
+}
+
+/**
+ * Number of differing bits between two hex-encoded hashes of equal length (the database compares
+ * stored hashes itself, in find_images_by_phash)
+ */
+export function hammingDistance(a: string, b: string): number {
+  if (a.length !== b.length) {
+    throw new Error(`Hash length mismatch: ${a.length} vs ${b.length}`);
+  }
+
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+
+  return distance;
+}
+
+/**
+ * Decide whether an existing near-duplicate should be kept over the incoming copy.
+ * A more trusted source (lower tier) wins; on equal tiers the higher resolution wins,
+ * and ties go to the existing image so we don't churn derivatives.
+ */
+export function shouldKeepExisting(
+  existing: NearDuplicateMatch,
+  candidate: { width: number; height: number; trustTier: number }
+): boolean {
+  const existingTier = existing.trustTier ?? 3;
+
+  if (existingTier !== candidate.trustTier) {
+    return existingTier < candidate.trustTier;
+  }
+
+  return existing.width * existing.height >= candidate.width * candidate.height;
+}
@@ -0,0 +1,186 @@
+import sharp from 'sharp';
+import { ImageQuality, QualityIssue } from '../types.js';
+import { config } from '../config.js';
+
+// Measure on a fixed working size so scores compare across source resolutions
+const SAMPLE_WIDTH = 512;
+// Blockiness is measured at native resolution (resizing hides the 8x8 grid), on a central window
+const BLOCK_WINDOW = 1024;
+const JPEG_BLOCK = 8;
+// Share of block edges with the highest ratios left out, so artwork lines that happen to lie on the
+// block grid don't read as compression
+const BLOCK_EDGE_OUTLIERS = 0.1;
+
+// A pixel is blown out when every channel is clipped and it has no colour left
+const GLARE_MIN_VALUE = 250;
+const GLARE_MAX_CHROMA = 20;
+
+// Overlay text strokes: light, colourless, with a hard edge. Dark strokes are left out
+// because black line art is common in card artwork
+const OVERLAY_MAX_CHROMA = 24;
+const OVERLAY_MIN_EDGE = 40;
+const OVERLAY_MIN_VALUE = 200;
+
+/**
+ * Measure blur, compression artifacts, glare and overlaid text on a card image.
+ * These are heuristics tuned for single-card images; use findQualityIssues to compare
+ * them against the configured thresholds.
+ */
+export async function analyzeQuality(buffer: Buffer): Promise<ImageQuality> {
+  const { data, info } = await sharp(buffer)
+    .rotate()
+    .removeAlpha()
+    .resize({ width: SAMPLE_WIDTH, withoutEnlargement: true })
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const { width, height } = info;
+  const grey = new Float32Array(width * height);
+  for (let i = 0; i < grey.length; i++) {
+    grey[i] = 0.299 * data[i * 3] + 0.587 * data[i * 3 + 1] + 0.114 * data[i * 3 + 2];
+  }
+
+  // Blur: variance of the Laplacian. Crisp scans score in the hundreds; blurred images fall well below 100
+  const laplacian = new Float32Array(width * height);
+  let sum = 0;
+  let sumSquares = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const value = grey[i - width] + grey[i + width] + grey[i - 1] + grey[i + 1] - 4 * grey[i];
+      laplacian[i] = value;
+      sum += value;
+      sumSquares += value * value;
+      count++;
+    }
+  }
+  const mean = count ? sum / count : 0;
+  const sharpness = count ? sumSquares / count - mean * mean : 0;
+
+  // Glare: clipped, colourless pixels inside the card (skipping a 5% margin of background/border)
+  let glarePixels = 0;
+  let glareTotal = 0;
+  forWindow(width, height, [0.05, 0.95], [0.05, 0.95], i => {
+    const r = data[i * 3], g = data[i * 3 + 1], b = data[i * 3 + 2];
+    const min = Math.min(r, g, b);
+    glareTotal++;
+    if (min >= GLARE_MIN_VALUE && Math.max(r, g, b) - min <= GLARE_MAX_CHROMA) glarePixels++;
+  });
+
+  // Overlay: light colourless hard-edged strokes over the artwork window, where a card has no text of its own
+  let overlayPixels = 0;
+  let overlayTotal = 0;
+  forWindow(width, height, [0.1, 0.9], [0.12, 0.5], i => {
+    const r = data[i * 3], g = data[i * 3 + 1], b = data[i * 3 + 2];
+    overlayTotal++;
+    if (
+      Math.max(r, g, b) - Math.min(r, g, b) <= OVERLAY_MAX_CHROMA &&
+      Math.abs(laplacian[i]) >= OVERLAY_MIN_EDGE &&
+      grey[i] >= OVERLAY_MIN_VALUE
+    ) {
+      overlayPixels++;
+    }
+  });
+
+  return {
+    sharpness: round(sharpness, 1),
+    blockiness: round(await measureBlockiness(buffer), 3),
+    glareRatio: round(glareTotal ? glarePixels / glareTotal : 0, 4),
+    overlayScore: round(overlayTotal ? overlayPixels / overlayTotal : 0, 4),
+  };
+}
+
+/**
+ * How much larger luminance steps are across 8x8 block edges than the steps just inside the blocks
+ * on either side, averaged over block edges. Around 1 for clean images; heavy JPEG compression
+ * pushes it well above in smooth areas.
+ */
+async function measureBlockiness(buffer: Buffer): Promise<number> {
+  const { width = 0, height = 0 } = await sharp(buffer).metadata();
+
+  const windowWidth = Math.min(width, BLOCK_WINDOW);
+  const windowHeight = Math.min(height, BLOCK_WINDOW);
+  if (windowWidth < JPEG_BLOCK * 4 || windowHeight < JPEG_BLOCK * 4) {
+    return 1;
+  }
+
+  // Align the window to the block grid so boundaries fall where the encoder put them
+  const left = Math.floor((width - windowWidth) / 2 / JPEG_BLOCK) * JPEG_BLOCK;
+  const top = Math.floor((height - windowHeight) / 2 / JPEG_BLOCK) * JPEG_BLOCK;
+
+  const grey = await sharp(buffer)
+    .extract({ left, top, width: windowWidth, height: windowHeight })
+    .greyscale()
+    .raw()
+    .toBuffer();
+
+  const blocksX = Math.floor(windowWidth / JPEG_BLOCK);
+  const blocksY = Math.floor(windowHeight / JPEG_BLOCK);
+  const ratios: number[] = [];
+  // Edges between horizontally adjacent blocks, walked down the rows of the block...
+  for (let by = 0; by < blocksY; by++) {
+    for (let bx = 0; bx < blocksX - 1; bx++) {
+      const start = by * JPEG_BLOCK * windowWidth + bx * JPEG_BLOCK + JPEG_BLOCK - 1;
+      ratios.push(blockEdgeRatio(grey, start, windowWidth, 1));
+    }
+  }
+  // ...and between vertically adjacent ones, walked along the columns
+  for (let by = 0; by < blocksY - 1; by++) {
+    for (let bx = 0; bx < blocksX; bx++) {
+      const start = (by * JPEG_BLOCK + JPEG_BLOCK - 1) * windowWidth + bx * JPEG_BLOCK;
+      ratios.push(blockEdgeRatio(grey, start, 1, windowWidth));
+    }
+  }
+
+  const kept = ratios.sort((a, b) => a - b).slice(0, Math.ceil(ratios.length * (1 - BLOCK_EDGE_OUTLIERS)));
+  return kept.reduce((sum, ratio) => sum + ratio, 0) / kept.length;
+}
+
+/**
+ * Step across one block edge relative to the steps one pixel inside it on both sides.
+ * `start` is the last pixel before the edge; `along` walks the edge, `across` crosses it.
+ */
+function blockEdgeRatio(grey: Buffer, start: number, along: number, across: number): number {
+  let edge = 0;
+  let inner = 0;
+  for (let k = 0; k < JPEG_BLOCK; k++) {
+    const i = start + k * along;
+    edge += Math.abs(grey[i + across] - grey[i]);
+    inner += (Math.abs(grey[i] - grey[i - across]) + Math.abs(grey[i + 2 * across] - grey[i + across])) / 2;
+  }
+
+  // Small offset keeps flat areas (no steps anywhere) at 1 rather than dividing by ~0
+  return (edge / JPEG_BLOCK + 0.5) / (inner / JPEG_BLOCK + 0.5);
+}
+
+/**
+ * Which configured quality thresholds the image fails
+ */
+export function findQualityIssues(quality: ImageQuality): QualityIssue[] {
+  const issues: QualityIssue[] = [];
+  if (quality.sharpness < config.qualityMinSharpness) issues.push('blurry');
+  if (quality.blockiness > config.qualityMaxBlockiness) issues.push('compressed');
+  if (quality.glareRatio > config.qualityMaxGlareRatio) issues.push('glare');
+  if (quality.overlayScore > config.qualityMaxOverlayScore) issues.push('watermark');
+  return issues;
+}
+
+function forWindow(
+  width: number,
+  height: number,
+  [x0, x1]: [number, number],
+  [y0, y1]: [number, number],
+  visit: (index: number) => void
+): void {
+  for (let y = Math.floor(height * y0); y < Math.floor(height * y1); y++) {
+    for (let x = Math.floor(width * x0); x < Math.floor(width * x1); x++) {
+      visit(y * width + x);
+    }
+  }
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,102 @@
+import { logger } from '../utils/logger.js';
+import { generateDerivatives } from '../storage/derivatives.js';
+import { uploadDerivatives, downloadOriginal, deleteDerivativeFiles } from '../storage/upload.js';
+import { warpToCard } from './crop.js';
+import {
+  getStoredImage,
+  listStoredImageIds,
+  deleteDerivativeRecords,
+  createDerivativeRecord,
+  logIngestEvent,
+} from '../db/queries.js';
+
+const REGENERATE_PAGE_SIZE = 100;
+
+export interface RegenerateResult {
+  imageId: string;
+  status: 'completed' | 'failed';
+  count?: number;
+  error?: string;
+}
+
+/**
+ * Rebuild derivatives for one image from its stored original (no network fetch)
+ */
+export async function regenerateImage(imageId: string): Promise<RegenerateResult> {
+  try {
+    const image = await getStoredImage(imageId);
+    if (!image) {
+      return { imageId, status: 'failed', error: 'Image not found' };
+    }
+    if (!image.originalStoragePath) {
+      return { imageId, status: 'failed', error: 'No stored original' };
+    }
+
+    const original = await downloadOriginal(image.originalStoragePath);
+
+    // Re-apply the stored crop so regenerated derivatives match the originals
+    const source = image.cropRegion
+      ? await warpToCard(original, image.cropRegion.corners)
+      : { buffer: original, width: image.originalWidth };
+
+    const derivatives = await generateDerivatives(source.buffer, image.sha256, source.width);
+
+    await uploadDerivatives(derivatives);
+
+    // Replace the old rows so removed variants don't linger
+    const previousPaths = await deleteDerivativeRecords(imageId);
+    for (const derivative of derivatives) {
+      await createDerivativeRecord({
+        imageId,
+        variant: derivative.variant,
+        format: derivative.format,
+        width: derivative.width,
+        height: derivative.height,
+        bytes: derivative.bytes,
+        storagePath: derivative.storagePath,
+      });
+    }
+
+    // Files of removed variants or formats would otherwise stay publicly reachable
+    const currentPaths = new Set(derivatives.map(derivative => derivative.storagePath));
+    await deleteDerivativeFiles(previousPaths.filter(path => !currentPaths.has(path)));
+
+    await logIngestEvent({
+      imageId,
+      eventType: 'derivatives_regenerated',
+      metadata: { count: derivatives.length },
+    });
+
+    return { imageId, status: 'completed', count: derivatives.length };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    logger.error('Regeneration failed', { imageId, error: message });
+    return { imageId, status: 'failed', error: message };
+  }
+}
+
+/**
+ * Rebuild derivatives for every image with a stored original
+ */
+export async function regenerateAll(): Promise<RegenerateResult[]> {
+  const results: RegenerateResult[] = [];
+  let afterId: string | null = null;
+
+  for (;;) {
+    const ids = await listStoredImageIds(afterId, REGENERATE_PAGE_SIZE);
+    if (ids.length === 0) break;
+
+    for (const id of ids) {
+      results.push(await regenerateImage(id));
+    }
+
+    afterId = ids[ids.length - 1];
+  }
+
+  logger.info('Regenerated all derivatives', {
+    total: results.length,
+    failed: results.filter(r => r.status === 'failed').length,
+  });
+
+  return results;
+}
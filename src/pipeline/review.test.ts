@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { decodeCursor, ReviewError } from './review.js';
+
+const IMAGE_ID = '3f2b8c1e-9a4d-4e6f-8b7a-1c2d3e4f5a6b';
+
+function cursor(parts: unknown): string {
+  return Buffer.from(JSON.stringify(parts)).toString('base64url');
+}
+
+describe('decodeCursor', () => {
+  it.each(['2026-10-19T05:04:32.123456+00:00', '2026-10-19T05:04:32Z', '2026-10-19T05:04:32.1-07:00'])(
+    'accepts created_at %s',
+    createdAt => {
+      expect(decodeCursor(cursor([createdAt, IMAGE_ID]))).toEqual({ createdAt, imageId: IMAGE_ID });
+    }
+  );
+
+  it.each([
+    ['a filter injection in created_at', ['2026-10-19T05:04:32Z,id.gt.0', IMAGE_ID]],
+    ['a date without a time', ['2026-10-19', IMAGE_ID]],
+    ['a timestamp without a zone', ['2026-10-19T05:04:32', IMAGE_ID]],
+    ['an impossible date', ['2026-13-45T05:04:32Z', IMAGE_ID]],
+    ['a non-string created_at', [1760850272000, IMAGE_ID]],
+    ['a filter injection in the id', ['2026-10-19T05:04:32Z', `${IMAGE_ID}),or=(status.eq.x`]],
+    ['a missing id', ['2026-10-19T05:04:32Z']],
+  ])('rejects %s', (_, parts) => {
+    expect(() => decodeCursor(cursor(parts))).toThrow(ReviewError);
+  });
+
+  it('rejects a cursor that is not base64url JSON with a 400', () => {
+    expect(() => decodeCursor('not a cursor')).toThrow(expect.objectContaining({ httpStatus: 400 }));
+  });
+});
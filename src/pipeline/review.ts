@@ -0,0 +1,170 @@
+import { logger } from '../utils/logger.js';
+import { getPublicUrl } from '../storage/upload.js';
+import { scoreImage } from './assign.js';
+import {
+  assignImageToCard,
+  getAssignmentStats,
+  getReviewTarget,
+  listPendingReviews,
+  logIngestEvent,
+  PendingReview,
+  updateImageReview,
+} from '../db/queries.js';
+
+// Cursor parts are interpolated into a PostgREST filter, so only accept what the database hands out:
+// a timestamp as created_at is serialised, and a uuid
+const CURSOR_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d{1,6})?(Z|[+-]\d{2}:\d{2})$/;
+const CURSOR_ID = /^[0-9a-f-]+$/i;
+
+export interface ReviewItem extends Omit<PendingReview, 'derivatives'> {
+  derivatives: Array<PendingReview['derivatives'][number] & { url: string }>;
+}
+
+/**
+ * Review action that can't be carried out; `httpStatus` is what the API should answer
+ */
+export class ReviewError extends Error {
+  constructor(message: string, readonly httpStatus: number) {
+    super(message);
+    this.name = 'ReviewError';
+  }
+}
+
+/**
+ * Opaque paging cursor for the review queue: the last item's created_at and id
+ */
+function encodeCursor(item: ReviewItem): string {
+  return Buffer.from(JSON.stringify([item.createdAt, item.imageId])).toString('base64url');
+}
+
+/**
+ * Parse a cursor from encodeCursor; anything else is a 400 ReviewError
+ */
+export function decodeCursor(cursor: string): { createdAt: string; imageId: string } {
+  try {
+    const [createdAt, imageId] = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+    if (
+      typeof createdAt === 'string' &&
+      CURSOR_TIMESTAMP.test(createdAt) &&
+      !Number.isNaN(Date.parse(createdAt)) &&
+      typeof imageId === 'string' &&
+      CURSOR_ID.test(imageId)
+    ) {
+      return { createdAt, imageId };
+    }
+  } catch {
+    // Falls through to the error below
+  }
+  throw new ReviewError('Invalid cursor', 400);
+}
+
+export async function listReviewQueue(
+  limit: number,
+  cursor?: string
+): Promise<{ items: ReviewItem[]; next: string | null }> {
+  const pending = await listPendingReviews(limit, cursor ? decodeCursor(cursor) : undefined);
+  const items = pending.map(item => ({
+    ...item,
+    derivatives: item.derivatives.map(derivative => ({ ...derivative, url: getPublicUrl(derivative.storagePath) })),
+  }));
+
+  return { items, next: items.length === limit ? encodeCursor(items[items.length - 1]) : null };
+}
+
+async function requireTarget(imageId: string) {
+  const target = await getReviewTarget(imageId);
+  if (!target) {
+    throw new ReviewError('Image not found', 404);
+  }
+  return target;
+}
+
+/**
+ * Confirm an image's side and assign it to its card (or the card given), overriding the current image
+ */
+export async function approveImage(params: {
+  imageId: string;
+  side: 'front' | 'back';
+  reviewer: string;
+  cardId?: string;
+}): Promise<{ imageId: string; cardId: string; role: string }> {
+  const target = await requireTarget(params.imageId);
+  const cardId = params.cardId ?? target.cardId;
+  if (!cardId) {
+    throw new ReviewError('No card to assign to; pass cardId', 400);
+  }
+
+  const role = params.side === 'front' ? 'primary_front' : 'primary_back';
+
+  await updateImageReview(params.imageId, {
+    status: 'approved',
+    reviewer: params.reviewer,
+    cardId,
+    side: params.side,
+  });
+
+  // Scored after the review update, which sets the side confidence to 1
+  const stats = await getAssignmentStats(params.imageId);
+  if (!stats) {
+    throw new ReviewError('Image not found', 404);
+  }
+  await assignImageToCard({ cardId, imageId: params.imageId, role, score: scoreImage(stats).total });
+
+  await logIngestEvent({
+    cardId,
+    imageId: params.imageId,
+    eventType: 'review_approved',
+    message: role,
+    metadata: { reviewer: params.reviewer, side: params.side, previousCardId: target.cardId },
+  });
+
+  logger.info('Image approved in review', { imageId: params.imageId, cardId, role, reviewer: params.reviewer });
+  return { imageId: params.imageId, cardId, role };
+}
+
+export async function rejectImage(params: { imageId: string; reviewer: string; reason?: string }): Promise<void> {
+  const target = await requireTarget(params.imageId);
+
+  await updateImageReview(params.imageId, {
+    status: 'rejected',
+    reviewer: params.reviewer,
+    note: params.reason,
+  });
+
+  await logIngestEvent({
+    cardId: target.cardId ?? undefined,
+    imageId: params.imageId,
+    eventType: 'review_rejected',
+    message: params.reason,
+    metadata: { reviewer: params.reviewer },
+  });
+
+  logger.info('Image rejected in review', { imageId: params.imageId, reviewer: params.reviewer });
+}
+
+/**
+ * Point a pending image at a different card; it stays in the queue to be approved for that card
+ */
+export async function reassignImage(params: { imageId: string; cardId: string; reviewer: string }): Promise<void> {
+  const target = await requireTarget(params.imageId);
+
+  await updateImageReview(params.imageId, {
+    status: 'pending',
+    reviewer: params.reviewer,
+    cardId: params.cardId,
+  });
+
+  await logIngestEvent({
+    cardId: params.cardId,
+    imageId: params.imageId,
+    eventType: 'review_reassigned',
+    metadata: { reviewer: params.reviewer, previousCardId: target.cardId },
+  });
+
+  logger.info('Image reassigned in review', {
+    imageId: params.imageId,
+    cardId: params.cardId,
+    previousCardId: target.cardId,
+    reviewer: params.reviewer,
+  });
+}
@@ -0,0 +1,169 @@
+import sharp from 'sharp';
+import { Point } from '../types.js';
+
+const MIN_BACKGROUND_DISTANCE = 40; // Sum of RGB channel differences
+
+export interface ForegroundMask {
+  mask: Uint8Array; // 1 = differs from the background colour
+  width: number;
+  height: number;
+  scale: number; // multiply mask coordinates by this to get source pixels
+  frameBackground: number; // fraction of the outer frame classed as background (low = no real background)
+}
+
+export interface Component {
+  pixels: Point[];
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+/**
+ * Image size after EXIF orientation is applied (what sharp().rotate() produces)
+ */
+export async function getOrientedSize(buffer: Buffer): Promise<{ width: number; height: number }> {
+  const { width = 0, height = 0, orientation } = await sharp(buffer).metadata();
+  // EXIF orientations 5-8 swap the axes
+  return orientation && orientation >= 5 ? { width: height, height: width } : { width, height };
+}
+
+/**
+ * Separate objects from a roughly uniform background (table, mat, scanner bed).
+ * The background colour is the median of the outer frame; pixels far from it are foreground.
+ */
+export async function segmentForeground(buffer: Buffer, size: number): Promise<ForegroundMask> {
+  const { data, info } = await sharp(buffer)
+    .rotate() // Honour EXIF orientation so coordinates match later extracts/warps
+    .resize(size, size, { fit: 'inside' })
+    .removeAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const { width, height } = info;
+  const orientedSize = await getOrientedSize(buffer);
+  const background = medianFrameColour(data, width, height);
+
+  const distances = new Uint16Array(width * height);
+  for (let i = 0; i < width * height; i++) {
+    distances[i] =
+      Math.abs(data[i * 3] - background[0]) +
+      Math.abs(data[i * 3 + 1] - background[1]) +
+      Math.abs(data[i * 3 + 2] - background[2]);
+  }
+
+  const threshold = Math.max(MIN_BACKGROUND_DISTANCE, otsuThreshold(distances, 766));
+  const mask = new Uint8Array(width * height);
+  for (let i = 0; i < distances.length; i++) {
+    mask[i] = distances[i] > threshold ? 1 : 0;
+  }
+
+  let frameTotal = 0;
+  let frameBackground = 0;
+  forEachFramePixel(width, height, idx => {
+    frameTotal++;
+    if (!mask[idx]) frameBackground++;
+  });
+
+  return { mask, width, height, scale: orientedSize.width / width, frameBackground: frameBackground / frameTotal };
+}
+
+/**
+ * 4-connected foreground regions, largest first
+ */
+export function findComponents(mask: Uint8Array, width: number, height: number): Component[] {
+  const visited = new Uint8Array(width * height);
+  const components: Component[] = [];
+
+  for (let start = 0; start < width * height; start++) {
+    if (visited[start] || !mask[start]) continue;
+
+    const component: Component = { pixels: [], left: width, top: height, right: 0, bottom: 0 };
+    const stack = [start];
+    visited[start] = 1;
+
+    while (stack.length > 0) {
+      const idx = stack.pop()!;
+      const x = idx % width;
+      const y = (idx - x) / width;
+      component.pixels.push({ x, y });
+      component.left = Math.min(component.left, x);
+      component.top = Math.min(component.top, y);
+      component.right = Math.max(component.right, x);
+      component.bottom = Math.max(component.bottom, y);
+
+      const neighbours = [
+        x > 0 ? idx - 1 : -1,
+        x < width - 1 ? idx + 1 : -1,
+        y > 0 ? idx - width : -1,
+        y < height - 1 ? idx + width : -1,
+      ];
+      for (const n of neighbours) {
+        if (n >= 0 && !visited[n] && mask[n]) {
+          visited[n] = 1;
+          stack.push(n);
+        }
+      }
+    }
+
+    components.push(component);
+  }
+
+  return components.sort((a, b) => b.pixels.length - a.pixels.length);
+}
+
+function forEachFramePixel(width: number, height: number, fn: (idx: number) => void): void {
+  const frame = Math.max(1, Math.floor(Math.min(width, height) * 0.03));
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (x >= frame && x < width - frame && y >= frame && y < height - frame) continue;
+      fn(y * width + x);
+    }
+  }
+}
+
+function medianFrameColour(data: Buffer, width: number, height: number): [number, number, number] {
+  const channels: number[][] = [[], [], []];
+
+  forEachFramePixel(width, height, idx => {
+    channels[0].push(data[idx * 3]);
+    channels[1].push(data[idx * 3 + 1]);
+    channels[2].push(data[idx * 3 + 2]);
+  });
+
+  const median = (values: number[]) => values.sort((a, b) => a - b)[Math.floor(values.length / 2)];
+  return [median(channels[0]), median(channels[1]), median(channels[2])];
+}
+
+function otsuThreshold(values: Uint16Array, levels: number): number {
+  const histogram = new Array(levels).fill(0);
+  for (const value of values) histogram[value]++;
+
+  let sum = 0;
+  for (let i = 0; i < levels; i++) sum += i * histogram[i];
+
+  let sumBackground = 0;
+  let weightBackground = 0;
+  let best = 0;
+  let bestVariance = 0;
+
+  for (let t = 0; t < levels; t++) {
+    weightBackground += histogram[t];
+    if (weightBackground === 0) continue;
+    const weightForeground = values.length - weightBackground;
+    if (weightForeground === 0) break;
+
+    sumBackground += t * histogram[t];
+    const meanBackground = sumBackground / weightBackground;
+    const meanForeground = (sum - sumBackground) / weightForeground;
+    const variance = weightBackground * weightForeground * (meanBackground - meanForeground) ** 2;
+
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      best = t;
+    }
+  }
+
+  return best;
+}
@@ -0,0 +1,204 @@
+import { readFile } from 'fs/promises';
+import sharp from 'sharp';
+import { SideDetectionResult } from '../types.js';
+import { config } from '../config.js';
+import { logger } from '../utils/logger.js';
+import { getOrientedSize } from './segment.js';
+
+// Bump when features change; models trained on another version are ignored
+export const SIDE_FEATURE_VERSION = 1;
+
+const SAMPLE_SIZE = 64;
+const BORDER_FRACTION = 0.1;
+const HUE_BINS = 12;
+const EXPECTED_CARD_ASPECT_RATIO = 0.716;
+
+// Below this calibrated confidence the model doesn't commit to a side
+const MIN_DECISIVE_CONFIDENCE = 0.6;
+
+/**
+ * Logistic regression over SIDE_FEATURE_VERSION features, predicting P(back).
+ * Written by scripts/train-side-model.ts.
+ */
+export interface SideModel {
+  featureVersion: number;
+  trainedAt: string;
+  // Per-feature standardisation
+  mean: number[];
+  std: number[];
+  weights: number[];
+  bias: number;
+  // Platt scaling of the raw logit: P(back) = sigmoid(a * logit + b)
+  calibration: { a: number; b: number };
+  metrics?: Record<string, number>;
+}
+
+/**
+ * Colour and edge features for side classification.
+ * Per region (outer border ring, interior): saturation-weighted hue histogram, mean/spread of
+ * saturation and value, blue and yellow ratios. Then edge density inside and on the border,
+ * and distance from the card aspect ratio.
+ */
+export async function extractSideFeatures(buffer: Buffer): Promise<number[]> {
+  const { data } = await sharp(buffer)
+    .rotate()
+    .resize(SAMPLE_SIZE, SAMPLE_SIZE, { fit: 'fill' })
+    .removeAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const border: number[] = [];
+  const interior: number[] = [];
+  const ring = Math.floor(SAMPLE_SIZE * BORDER_FRACTION);
+  for (let y = 0; y < SAMPLE_SIZE; y++) {
+    for (let x = 0; x < SAMPLE_SIZE; x++) {
+      const inBorder = x < ring || x >= SAMPLE_SIZE - ring || y < ring || y >= SAMPLE_SIZE - ring;
+      (inBorder ? border : interior).push(y * SAMPLE_SIZE + x);
+    }
+  }
+
+  const grey = new Float32Array(SAMPLE_SIZE * SAMPLE_SIZE);
+  for (let i = 0; i < grey.length; i++) {
+    grey[i] = (0.299 * data[i * 3] + 0.587 * data[i * 3 + 1] + 0.114 * data[i * 3 + 2]) / 255;
+  }
+  const edges = sobelMagnitude(grey, SAMPLE_SIZE);
+
+  const { width, height } = await getOrientedSize(buffer);
+  const aspectDistance = height ? Math.abs(width / height - EXPECTED_CARD_ASPECT_RATIO) : 1;
+
+  return [
+    ...regionFeatures(data, border),
+    ...regionFeatures(data, interior),
+    mean(interior.map(i => edges[i])),
+    mean(border.map(i => edges[i])),
+    interior.filter(i => edges[i] > 0.25).length / interior.length,
+    Math.min(1, aspectDistance),
+  ];
+}
+
+function regionFeatures(data: Buffer, indices: number[]): number[] {
+  const hues = new Array(HUE_BINS).fill(0);
+  const saturations: number[] = [];
+  const values: number[] = [];
+  let blue = 0;
+  let yellow = 0;
+
+  for (const i of indices) {
+    const r = data[i * 3], g = data[i * 3 + 1], b = data[i * 3 + 2];
+    const max = Math.max(r, g, b);
+    const min = Math.min(r, g, b);
+    const saturation = max ? (max - min) / max : 0;
+    const value = max / 255;
+
+    hues[Math.min(HUE_BINS - 1, Math.floor(hue(r, g, b) / (360 / HUE_BINS)))] += saturation * value;
+    saturations.push(saturation);
+    values.push(value);
+
+    if (b > 80 && b > r * 1.5 && b > g * 1.2) blue++;
+    if (r > 180 && g > 150 && b < 100) yellow++;
+  }
+
+  const hueTotal = hues.reduce((sum, weight) => sum + weight, 0) || 1;
+
+  return [
+    ...hues.map(weight => weight / hueTotal),
+    mean(saturations),
+    spread(saturations),
+    mean(values),
+    spread(values),
+    blue / indices.length,
+    yellow / indices.length,
+  ];
+}
+
+function sobelMagnitude(grey: Float32Array, size: number): Float32Array {
+  const out = new Float32Array(size * size);
+  for (let y = 1; y < size - 1; y++) {
+    for (let x = 1; x < size - 1; x++) {
+      const i = y * size + x;
+      const gx = grey[i - size + 1] + 2 * grey[i + 1] + grey[i + size + 1]
+        - grey[i - size - 1] - 2 * grey[i - 1] - grey[i + size - 1];
+      const gy = grey[i + size - 1] + 2 * grey[i + size] + grey[i + size + 1]
+        - grey[i - size - 1] - 2 * grey[i - size] - grey[i - size + 1];
+      out[i] = Math.hypot(gx, gy);
+    }
+  }
+  return out;
+}
+
+function hue(r: number, g: number, b: number): number {
+  const max = Math.max(r, g, b);
+  const delta = max - Math.min(r, g, b);
+  if (delta === 0) return 0;
+
+  const sector = max === r ? ((g - b) / delta + 6) % 6 : max === g ? (b - r) / delta + 2 : (r - g) / delta + 4;
+  return sector * 60;
+}
+
+function mean(values: number[]): number {
+  return values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+function spread(values: number[]): number {
+  const average = mean(values);
+  return Math.sqrt(mean(values.map(value => (value - average) ** 2)));
+}
+
+export function sigmoid(x: number): number {
+  return 1 / (1 + Math.exp(-x));
+}
+
+/**
+ * Raw logit of P(back) before calibration
+ */
+export function sideLogit(model: Pick<SideModel, 'mean' | 'std' | 'weights' | 'bias'>, features: number[]): number {
+  return features.reduce(
+    (sum, value, i) => sum + model.weights[i] * ((value - model.mean[i]) / (model.std[i] || 1)),
+    model.bias
+  );
+}
+
+export function predictSide(model: SideModel, features: number[]): SideDetectionResult {
+  const pBack = sigmoid(model.calibration.a * sideLogit(model, features) + model.calibration.b);
+  const confidence = Math.max(pBack, 1 - pBack);
+
+  return {
+    side: confidence < MIN_DECISIVE_CONFIDENCE ? 'unknown' : pBack >= 0.5 ? 'back' : 'front',
+    confidence: Math.round(confidence * 1000) / 1000,
+    method: 'model',
+  };
+}
+
+let modelPromise: Promise<SideModel | null> | null = null;
+
+/**
+ * The trained model from config.sideModelPath, or null when there isn't a usable one
+ */
+export function loadSideModel(): Promise<SideModel | null> {
+  if (!modelPromise) {
+    modelPromise = (async () => {
+      try {
+        const model = JSON.parse(await readFile(config.sideModelPath, 'utf8')) as SideModel;
+        if (model.featureVersion !== SIDE_FEATURE_VERSION) {
+          logger.warn('Side model was trained on other features, ignoring it', {
+            path: config.sideModelPath,
+            featureVersion: model.featureVersion,
+            expected: SIDE_FEATURE_VERSION,
+          });
+          return null;
+        }
+        logger.info('Side model loaded', { path: config.sideModelPath, trainedAt: model.trainedAt });
+        return model;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          logger.error('Failed to load side model', {
+            path: config.sideModelPath,
+            error: error instanceof Error ? error.message : 'Unknown',
+          });
+        }
+        return null;
+      }
+    })();
+  }
+  return modelPromise;
+}
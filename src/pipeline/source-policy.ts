@@ -0,0 +1,124 @@
+import { lookup as lookupCallback, LookupAddress, LookupOptions } from 'dns';
+import { lookup } from 'dns/promises';
+import { ImageJob, ImageSource, PolicyDenialReason } from '../types.js';
+import { isPrivateAddress } from '../utils/ip.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Thrown from connection-time lookups when a host resolves to a blocked address
+ */
+export class BlockedAddressError extends Error {
+  constructor(readonly hostname: string, readonly address: string) {
+    super(`${hostname} resolves to non-public address ${address}`);
+    this.name = 'BlockedAddressError';
+  }
+}
+
+export type PolicyResult = { ok: true } | { ok: false; reason: PolicyDenialReason; message: string };
+
+function deny(reason: PolicyDenialReason, message: string): PolicyResult {
+  return { ok: false, reason, message };
+}
+
+/**
+ * Check a job against its source's allowlist settings before anything is fetched
+ */
+export function checkSourcePolicy(job: ImageJob, source: ImageSource | null): PolicyResult {
+  if (!source) {
+    return deny('unknown_source', `No image source found for ${job.sourceId || job.sourceName || 'job'}`);
+  }
+
+  if (!source.isAllowed) {
+    return deny('source_disallowed', `Source ${source.name} is not allowed`);
+  }
+
+  // max_rps 0 (or unset) pauses the source; its token bucket would never refill and the job would wait forever
+  if (!(source.maxRps > 0)) {
+    return deny('source_disallowed', `Source ${source.name} is paused (max_rps ${source.maxRps})`);
+  }
+
+  let url: URL;
+  try {
+    url = new URL(job.sourceUrl);
+  } catch {
+    return deny('invalid_url', `Invalid URL: ${job.sourceUrl}`);
+  }
+
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    return deny('invalid_url', `Unsupported protocol: ${url.protocol}`);
+  }
+
+  if (source.baseUrl) {
+    const allowedHost = new URL(source.baseUrl).hostname;
+    if (url.hostname !== allowedHost) {
+      return deny('host_mismatch', `Host ${url.hostname} does not match source host ${allowedHost}`);
+    }
+  }
+
+  return { ok: true };
+}
+
+/**
+ * Resolve a URL's host and refuse it if any address is private, loopback or link-local.
+ * Called for the initial URL and again for every redirect hop. This is the only check IP
+ * literals get (sockets don't look them up); hostnames are checked again by guardedLookup.
+ */
+export async function checkUrlTarget(rawUrl: string): Promise<PolicyResult> {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    return deny('invalid_url', `Invalid URL: ${rawUrl}`);
+  }
+
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    return deny('invalid_url', `Unsupported protocol: ${url.protocol}`);
+  }
+
+  // URL keeps IPv6 literals bracketed
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+
+  let addresses: Array<{ address: string }>;
+  try {
+    addresses = await lookup(hostname, { all: true, verbatim: true });
+  } catch (error) {
+    logger.warn('DNS lookup failed', { hostname, error: error instanceof Error ? error.message : 'Unknown' });
+    return deny('dns_failed', `Could not resolve ${hostname}`);
+  }
+
+  const privateAddress = addresses.find(({ address }) => isPrivateAddress(address));
+  if (privateAddress) {
+    return deny('private_address', `${hostname} resolves to non-public address ${privateAddress.address}`);
+  }
+
+  return { ok: true };
+}
+
+/**
+ * Drop-in for dns.lookup used when sockets connect: the address connected to is the one checked,
+ * so a host can't answer the policy check with a public IP and the connection with a private one.
+ */
+export function guardedLookup(
+  hostname: string,
+  options: LookupOptions,
+  callback: (error: NodeJS.ErrnoException | null, address: string | LookupAddress[], family?: number) => void
+): void {
+  lookupCallback(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, []);
+      return;
+    }
+
+    const privateAddress = addresses.find(({ address }) => isPrivateAddress(address));
+    if (privateAddress) {
+      callback(new BlockedAddressError(hostname, privateAddress.address), []);
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+}
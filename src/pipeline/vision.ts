@@ -1,103 +1,216 @@
+import sharp from 'sharp';
 import { config } from '../config.js';
 import { logger } from '../utils/logger.js';
-import { ImageJob, SideDetectionResult } from '../types.js';
-
-interface VisionResponse {
-  choices: Array<{
-    message: {
-      content: string;
-    };
-  }>;
+import { computeSha256 } from '../utils/hash.js';
+import { metrics } from '../utils/metrics.js';
+import { ImageJob, VisionAnalysis, VisionCheckResult } from '../types.js';
+import { getCachedVisionResult, logIngestEvent, saveVisionResult } from '../db/queries.js';
+import { getVisionProvider, VisionProviderError, VisionResponse } from '../vision/provider.js';
+import {
+  buildVisionPrompt,
+  parseVisionAnalysis,
+  VISION_PROMPT_VERSION,
+  VISION_RESPONSE_SCHEMA,
+} from '../vision/schema.js';
+
+const UNKNOWN: VisionCheckResult = { side: 'unknown', confidence: 0.5, method: 'vision' };
+
+// Spend so far on the current UTC day (per process)
+let spend = { day: '', usd: 0 };
+
+function spentToday(): number {
+  const today = new Date().toISOString().slice(0, 10);
+  if (spend.day !== today) {
+    spend = { day: today, usd: 0 };
+  }
+  return spend.usd;
 }
 
 /**
- * Use OpenRouter Vision API to verify if image shows front of card
+ * Ask the configured vision model which side of the card is shown (and whether it's the job's card).
+ * Answers are cached per image sha256, prompt version, provider and model, so the same bytes are
+ * only sent once to each model.
  */
-export async function checkWithVision(
-  buffer: Buffer,
-  job: ImageJob,
-  trustTier: number
-): Promise<SideDetectionResult> {
-  if (!config.openrouterApiKey) {
-    logger.warn('OpenRouter API key not configured, skipping vision check');
-    return { side: 'unknown', confidence: 0.5, method: 'vision' };
+export async function checkWithVision(buffer: Buffer, job: ImageJob): Promise<VisionCheckResult> {
+  const provider = getVisionProvider();
+  const sha256 = computeSha256(buffer);
+  const identityTarget = getIdentityTarget(job);
+
+  const cacheKey = { sha256, promptVersion: VISION_PROMPT_VERSION, provider: provider.name, model: provider.model };
+
+  const cached = await getCachedVisionResult(cacheKey);
+  if (cached) {
+    // The identity answer only holds for the card it was asked about
+    const analysis: VisionAnalysis = cached.identityTarget === identityTarget
+      ? cached.analysis
+      : { ...cached.analysis, identityMatch: 'unsure' };
+
+    metrics.visionCalls.inc({ provider: provider.name, outcome: 'cached' });
+    await logIngestEvent({
+      cardId: job.cardId,
+      eventType: 'vision_checked',
+      message: 'cached',
+      metadata: {
+        cached: true,
+        sha256,
+        provider: provider.name,
+        model: provider.model,
+        promptVersion: VISION_PROMPT_VERSION,
+        costUsd: 0,
+        latencyMs: 0,
+        analysis,
+      },
+    });
+
+    return toSideResult(analysis);
   }
 
+  if (!provider.configured) {
+    logger.warn('Vision provider not configured, skipping vision check', { provider: provider.name });
+    metrics.visionCalls.inc({ provider: provider.name, outcome: 'skipped_unconfigured' });
+    return UNKNOWN;
+  }
+
+  if (spentToday() + config.visionCostPerCallUsd > config.visionDailySpendCapUsd) {
+    logger.warn('Vision daily spend cap reached, skipping vision check', {
+      spentUsd: spend.usd,
+      capUsd: config.visionDailySpendCapUsd,
+    });
+    metrics.visionCalls.inc({ provider: provider.name, outcome: 'skipped_spend_cap' });
+    return UNKNOWN;
+  }
+
+  const startedAt = Date.now();
   try {
-    // Convert buffer to base64
-    const base64Image = buffer.toString('base64');
-    const mimeType = 'image/jpeg'; // Assume JPEG for simplicity
-
-    // Build prompt based on trust tier
-    let prompt = 'Is this the front of a Pokémon trading card? ';
-    prompt += 'Answer with only "FRONT", "BACK", or "UNKNOWN". ';
-
-    // For Tier 2/3 sources, also verify card identity
-    if (trustTier >= 2 && job.cardNumber && job.setCode) {
-      prompt += `Also verify: does this appear to be card number ${job.cardNumber} from set ${job.setCode}? `;
-      prompt += 'If the card number/set don\'t match, answer "WRONG_CARD".';
-    }
+    const image = await downscaleForVision(buffer);
+    const { response, attempts } = await analyzeWithRetries(image, sha256, job);
+    const latencyMs = Date.now() - startedAt;
+    const costUsd = response.costUsd ?? config.visionCostPerCallUsd;
+    spend.usd += costUsd;
 
-    const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${config.openrouterApiKey}`,
-        'Content-Type': 'application/json',
-        'HTTP-Referer': 'https://bourdain.io',
-        'X-Title': 'Bourdain Image Worker',
+    const analysis = parseVisionAnalysis(response.content);
+    metrics.stageDuration.observe({ stage: 'vision' }, latencyMs / 1000);
+    metrics.visionCalls.inc({ provider: provider.name, outcome: analysis ? 'ok' : 'invalid_response' });
+
+    await logIngestEvent({
+      cardId: job.cardId,
+      eventType: 'vision_checked',
+      message: analysis ? analysis.side : 'invalid_response',
+      metadata: {
+        cached: false,
+        sha256,
+        provider: provider.name,
+        model: response.model,
+        promptVersion: VISION_PROMPT_VERSION,
+        costUsd,
+        latencyMs,
+        attempts,
+        sentBytes: image.length,
+        spentTodayUsd: spend.usd,
+        analysis,
       },
-      body: JSON.stringify({
-        model: config.visionModel,
-        messages: [
-          {
-            role: 'user',
-            content: [
-              {
-                type: 'text',
-                text: prompt,
-              },
-              {
-                type: 'image_url',
-                image_url: {
-                  url: `data:${mimeType};base64,${base64Image}`,
-                },
-              },
-            ],
-          },
-        ],
-        max_tokens: 50,
-        temperature: 0,
-      }),
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      logger.error('Vision API request failed', { status: response.status, error: errorText });
-      return { side: 'unknown', confidence: 0.5, method: 'vision' };
+    if (!analysis) {
+      logger.error('Vision response did not match schema', {
+        provider: provider.name,
+        content: JSON.stringify(response.content).slice(0, 200),
+      });
+      return UNKNOWN;
     }
 
-    const data = (await response.json()) as VisionResponse;
-    const answer = data.choices[0]?.message?.content?.trim().toUpperCase() || '';
-
-    logger.info('Vision API response', { answer, cardId: job.cardId });
-
-    // Parse response
-    if (answer.includes('FRONT')) {
-      return { side: 'front', confidence: 0.95, method: 'vision' };
-    } else if (answer.includes('BACK')) {
-      return { side: 'back', confidence: 0.95, method: 'vision' };
-    } else if (answer.includes('WRONG_CARD')) {
-      // This is a different card, treat as unknown
-      return { side: 'unknown', confidence: 0.3, method: 'vision' };
-    } else {
-      return { side: 'unknown', confidence: 0.5, method: 'vision' };
-    }
+    logger.info('Vision API response', { cardId: job.cardId, provider: provider.name, model: response.model, ...analysis });
+
+    await saveVisionResult({
+      ...cacheKey,
+      identityTarget,
+      analysis,
+      costUsd,
+      latencyMs,
+    });
+
+    return toSideResult(analysis);
   } catch (error) {
-    logger.error('Vision check failed', { error: error instanceof Error ? error.message : 'Unknown' });
-    return { side: 'unknown', confidence: 0.5, method: 'vision' };
+    const message = error instanceof Error ? error.message : 'Unknown';
+    logger.error('Vision check failed', { error: message });
+    metrics.stageDuration.observe({ stage: 'vision' }, (Date.now() - startedAt) / 1000);
+    metrics.visionCalls.inc({ provider: provider.name, outcome: 'failed' });
+
+    await logIngestEvent({
+      cardId: job.cardId,
+      eventType: 'vision_checked',
+      message: 'failed',
+      metadata: { sha256, provider: provider.name, latencyMs: Date.now() - startedAt, error: message },
+    });
+
+    return UNKNOWN;
+  }
+}
+
+/**
+ * Shrink the image to the configured longest edge as a JPEG; image tokens scale with pixels
+ */
+async function downscaleForVision(buffer: Buffer): Promise<Buffer> {
+  return sharp(buffer)
+    .rotate()
+    .resize({
+      width: config.visionMaxDimension,
+      height: config.visionMaxDimension,
+      fit: 'inside',
+      withoutEnlargement: true,
+    })
+    .flatten({ background: '#ffffff' })
+    .jpeg({ quality: 85 })
+    .toBuffer();
+}
+
+function getIdentityTarget(job: ImageJob): string | null {
+  return job.cardNumber || job.setCode ? `${job.cardNumber ?? ''}|${job.setCode ?? ''}` : null;
+}
+
+async function analyzeWithRetries(
+  image: Buffer,
+  imageSha256: string,
+  job: ImageJob
+): Promise<{ response: VisionResponse; attempts: number }> {
+  const provider = getVisionProvider();
+  const prompt = buildVisionPrompt(job);
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const response = await provider.analyze({
+        image,
+        imageSha256,
+        mimeType: 'image/jpeg',
+        prompt,
+        schema: VISION_RESPONSE_SCHEMA,
+        signal: AbortSignal.timeout(config.visionTimeoutMs),
+      });
+      return { response, attempts: attempt + 1 };
+    } catch (error) {
+      const retryable = error instanceof VisionProviderError && error.retryable;
+      if (!retryable || attempt >= config.visionMaxRetries) {
+        throw error;
+      }
+
+      // Full jitter, as for image fetches
+      const delay = Math.round(Math.random() * config.visionRetryBaseMs * 2 ** (attempt + 1));
+      logger.warn('Retrying vision call', { provider: provider.name, attempt: attempt + 1, delay, error: error.message });
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
   }
 }
 
+function toSideResult(analysis: VisionAnalysis): VisionCheckResult {
+  return {
+    side: analysis.side,
+    // An 'unknown' answer carries no evidence either way, however sure the model is of it
+    confidence: analysis.side === 'unknown' ? Math.min(analysis.confidence, 0.5) : analysis.confidence,
+    method: 'vision',
+    analysis,
+  };
+}
+
 /**
  * Determine if vision check should be run based on trust tier and confidence
  */
@@ -106,6 +219,10 @@ export function shouldRunVisionCheck(
   currentConfidence: number,
   sampleRate = 0.1
 ): boolean {
+  if (!config.visionEnabled) {
+    return false;
+  }
+
   // Tier 1: Never run vision (trusted sources)
   if (trustTier === 1) {
     return false;
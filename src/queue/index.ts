@@ -0,0 +1,335 @@
+import { randomUUID } from 'crypto';
+import { config } from '../config.js';
+import {
+  ImageJob,
+  JobRecord,
+  PipelineStage,
+  ProcessResult,
+  QueuedJob,
+  RegenerateAllJob,
+  RegenerateAllResult,
+} from '../types.js';
+import { logger, runWithLogContext } from '../utils/logger.js';
+import { captureTraceContext, extractTraceContext, runInTraceContext, TraceCarrier } from '../utils/tracing.js';
+import { processImage } from '../pipeline/index.js';
+import { regenerateAll } from '../pipeline/regenerate.js';
+import { getImageSource, getImageSourceByName } from '../db/queries.js';
+import { DuplicateJobError } from '../db/jobs.js';
+import { JobStore } from './store.js';
+
+interface QueueEntry {
+  record: JobRecord;
+  sourceKey: string;
+  maxConcurrency: number;
+  // Trace the job was queued from; not persisted, so recovered jobs start new traces
+  traceCarrier?: TraceCarrier;
+}
+
+export interface EnqueueOptions {
+  // QStash message id, used as the job's correlation id in logs and ingest events
+  messageId?: string;
+}
+
+export interface JobQueue {
+  enqueue(job: QueuedJob, options?: EnqueueOptions): Promise<JobRecord>;
+  // Enqueue unless a job with this key exists; replayed deliveries get the existing record
+  enqueueOnce(
+    job: ImageJob,
+    idempotencyKey: string,
+    options?: EnqueueOptions
+  ): Promise<{ record: JobRecord; replayed: boolean }>;
+  get(id: string): Promise<JobRecord | null>;
+  recover(): Promise<number>;
+  stats(): { pending: number; running: number };
+}
+
+function isRegenerateAll(job: QueuedJob): job is RegenerateAllJob {
+  return 'kind' in job && job.kind === 'regenerate_all';
+}
+
+async function resolveSourceLimit(job: QueuedJob): Promise<{ sourceKey: string; maxConcurrency: number }> {
+  // Regeneration reads stored originals only; one run at a time is plenty
+  if (isRegenerateAll(job)) {
+    return { sourceKey: 'regenerate', maxConcurrency: 1 };
+  }
+
+  let source = job.sourceId ? await getImageSource(job.sourceId) : null;
+  if (!source && job.sourceName) {
+    source = await getImageSourceByName(job.sourceName);
+  }
+
+  if (!source) {
+    return { sourceKey: job.sourceName ?? 'unknown', maxConcurrency: Infinity };
+  }
+
+  // A missing or zero limit means the source is only bound by the global limit
+  return {
+    sourceKey: source.id,
+    maxConcurrency: source.maxConcurrency > 0 ? source.maxConcurrency : Infinity,
+  };
+}
+
+function leaseUntil(ms = config.jobLeaseMs): string {
+  return new Date(Date.now() + ms).toISOString();
+}
+
+async function runJob(
+  job: QueuedJob,
+  onStage: (stage: PipelineStage) => void
+): Promise<ProcessResult | RegenerateAllResult> {
+  if (isRegenerateAll(job)) {
+    const results = await regenerateAll();
+    return {
+      status: 'completed',
+      total: results.length,
+      failed: results.filter(result => result.status === 'failed').length,
+    };
+  }
+
+  return processImage(job, onStage);
+}
+
+/**
+ * In-process job queue backed by a durable JobStore.
+ * Jobs run with a global concurrency cap and a per-source cap from image_sources.max_concurrency.
+ * Several replicas can share one store: a job only runs after this worker claims its lease.
+ */
+export function createJobQueue(store: JobStore): JobQueue {
+  const workerId = randomUUID();
+  const pending: QueueEntry[] = [];
+  const runningBySource = new Map<string, number>();
+  // Jobs this worker has scheduled and not finished (pending, running or waiting to retry)
+  const held = new Set<string>();
+  let running = 0;
+
+  function requeue(entry: QueueEntry, delayMs: number): void {
+    setTimeout(() => {
+      pending.push(entry);
+      pump();
+    }, delayMs);
+  }
+
+  /**
+   * Put a failed job back with exponential backoff; false once it is out of attempts
+   * or the failure isn't transient
+   */
+  async function retryLater(entry: QueueEntry, result: ProcessResult): Promise<boolean> {
+    const { record } = entry;
+    if (!result.retryable || record.attempts >= config.jobMaxAttempts) {
+      return false;
+    }
+
+    const delay = config.jobRetryBaseMs * 2 ** (record.attempts - 1);
+    record.status = 'queued';
+    record.result = result;
+    // Keep holding the job while it waits, so other replicas don't recover it meanwhile
+    record.leaseExpiresAt = leaseUntil(delay + config.jobLeaseMs);
+    await store.update(record.id, {
+      status: record.status,
+      result: record.result,
+      leaseExpiresAt: record.leaseExpiresAt,
+    });
+
+    logger.warn('Job failed, retrying', { jobId: record.id, attempt: record.attempts, delay, error: result.error });
+    requeue(entry, delay);
+    return true;
+  }
+
+  function pump(): void {
+    while (running < config.maxConcurrentJobs) {
+      const index = pending.findIndex(
+        entry => (runningBySource.get(entry.sourceKey) ?? 0) < entry.maxConcurrency
+      );
+      if (index === -1) return;
+
+      const [entry] = pending.splice(index, 1);
+      const { record } = entry;
+      void runInTraceContext(extractTraceContext(entry.traceCarrier), () => runWithLogContext(
+        {
+          correlationId: record.messageId ?? record.id,
+          messageId: record.messageId,
+          jobId: record.id,
+          cardId: isRegenerateAll(record.job) ? undefined : record.job.cardId,
+        },
+        () => run(entry)
+      ));
+    }
+  }
+
+  async function run(entry: QueueEntry): Promise<void> {
+    const { sourceKey } = entry;
+    running++;
+    runningBySource.set(sourceKey, (runningBySource.get(sourceKey) ?? 0) + 1);
+
+    let claimed = false;
+    let requeued = false;
+    let heartbeat: NodeJS.Timeout | undefined;
+
+    try {
+      const record = await store.claim(entry.record.id, workerId, entry.record.attempts, leaseUntil());
+      if (!record) {
+        logger.info('Job held by another worker, skipping', { jobId: entry.record.id });
+        return;
+      }
+      claimed = true;
+      entry.record = record;
+
+      heartbeat = setInterval(() => {
+        store.renewLease(record.id, workerId, leaseUntil())
+          .then(held => {
+            if (!held) logger.warn('Lost job lease to another worker', { jobId: record.id });
+          })
+          .catch(error => {
+            logger.warn('Failed to renew job lease', { jobId: record.id, error: error.message });
+          });
+      }, config.jobLeaseMs / 3);
+
+      const result = await runJob(record.job, stage => {
+        record.stage = stage;
+        store.update(record.id, { stage }).catch(error => {
+          logger.warn('Failed to record job stage', { jobId: record.id, stage, error: error.message });
+        });
+      });
+
+      // Source bucket is empty - put the job back rather than failing it. Doesn't use up an attempt
+      if (result.status === 'rate_limited') {
+        const delay = result.retryAfterMs ?? config.rateLimitRequeueMs;
+        record.status = 'queued';
+        record.attempts--;
+        record.leaseExpiresAt = leaseUntil(delay + config.jobLeaseMs);
+        await store.update(record.id, {
+          status: record.status,
+          attempts: record.attempts,
+          leaseExpiresAt: record.leaseExpiresAt,
+        });
+        requeue(entry, delay);
+        requeued = true;
+        return;
+      }
+
+      if (result.status === 'failed' && await retryLater(entry, result)) {
+        requeued = true;
+        return;
+      }
+
+      record.status = result.status === 'failed' ? 'failed' : 'completed';
+      record.result = result;
+      record.finishedAt = new Date().toISOString();
+      await store.update(record.id, {
+        status: record.status,
+        result: record.result,
+        finishedAt: record.finishedAt,
+      });
+
+      logger.info('Job finished', { jobId: record.id, status: result.status });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const { record } = entry;
+      logger.error('Job failed', { jobId: record.id, error: message });
+
+      // Couldn't even claim it (store unavailable) - try again later without using an attempt
+      if (!claimed) {
+        requeue(entry, config.jobRetryBaseMs);
+        requeued = true;
+        return;
+      }
+
+      const result: ProcessResult = { status: 'failed', error: message, retryable: true };
+      requeued = await retryLater(entry, result).catch(() => false);
+      if (!requeued) {
+        await store.update(record.id, {
+          status: 'failed',
+          result,
+          finishedAt: new Date().toISOString(),
+        }).catch(() => undefined);
+      }
+    } finally {
+      if (!requeued) {
+        held.delete(entry.record.id);
+      }
+      clearInterval(heartbeat);
+      running--;
+      runningBySource.set(sourceKey, (runningBySource.get(sourceKey) ?? 1) - 1);
+      pump();
+    }
+  }
+
+  async function schedule(record: JobRecord, traceCarrier?: TraceCarrier): Promise<void> {
+    held.add(record.id);
+    const limit = await resolveSourceLimit(record.job);
+    pending.push({ record, ...limit, traceCarrier });
+    pump();
+  }
+
+  async function enqueue(job: QueuedJob, options: EnqueueOptions = {}, idempotencyKey?: string): Promise<JobRecord> {
+    const record: JobRecord = {
+      id: randomUUID(),
+      status: 'queued',
+      job,
+      messageId: options.messageId,
+      idempotencyKey,
+      attempts: 0,
+      // Held by this worker while it waits in memory
+      leaseOwner: workerId,
+      leaseExpiresAt: leaseUntil(),
+      createdAt: new Date().toISOString(),
+    };
+
+    await store.insert(record);
+    await schedule(record, captureTraceContext());
+
+    return record;
+  }
+
+  return {
+    enqueue(job, options) {
+      return enqueue(job, options);
+    },
+
+    async enqueueOnce(job, idempotencyKey, options) {
+      const existing = await store.getByIdempotencyKey(idempotencyKey);
+      if (existing) {
+        return { record: existing, replayed: true };
+      }
+
+      try {
+        return { record: await enqueue(job, options, idempotencyKey), replayed: false };
+      } catch (error) {
+        // A concurrent delivery inserted first
+        if (error instanceof DuplicateJobError) {
+          const winner = await store.getByIdempotencyKey(idempotencyKey);
+          if (winner) {
+            return { record: winner, replayed: true };
+          }
+        }
+        throw error;
+      }
+    },
+
+    get(id) {
+      return store.get(id);
+    },
+
+    /**
+     * Re-schedule unfinished jobs whose lease has expired (their worker stopped).
+     * Each is claimed before it runs, so a job another replica takes first is skipped.
+     * Runs periodically; jobs this worker already holds are left alone.
+     */
+    async recover() {
+      const records = (await store.listUnfinished()).filter(record => !held.has(record.id));
+      for (const record of records) {
+        await schedule(record);
+      }
+
+      if (records.length > 0) {
+        logger.info('Recovered unfinished jobs', { count: records.length });
+      }
+
+      return records.length;
+    },
+
+    stats() {
+      return { pending: pending.length, running };
+    },
+  };
+}
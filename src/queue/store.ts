@@ -0,0 +1,147 @@
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { config } from '../config.js';
+import type { JobRecord } from '../types.js';
+import {
+  DuplicateJobError,
+  insertJob,
+  updateJob,
+  getJob,
+  getJobByIdempotencyKey,
+  listUnfinishedJobs,
+  claimJob,
+  renewJobLease,
+} from '../db/jobs.js';
+
+export interface JobStore {
+  insert(record: JobRecord): Promise<void>;
+  update(id: string, patch: Partial<JobRecord>): Promise<void>;
+  get(id: string): Promise<JobRecord | null>;
+  getByIdempotencyKey(idempotencyKey: string): Promise<JobRecord | null>;
+  // Queued/running jobs whose lease is unset or expired
+  listUnfinished(): Promise<JobRecord[]>;
+  // Atomically mark the job running for owner; null if another worker holds it
+  claim(id: string, owner: string, expectedAttempts: number, leaseExpiresAt: string): Promise<JobRecord | null>;
+  renewLease(id: string, owner: string, leaseExpiresAt: string): Promise<boolean>;
+}
+
+function leaseAvailable(record: JobRecord, owner: string | null, now: number): boolean {
+  return (owner !== null && record.leaseOwner === owner) ||
+    !record.leaseExpiresAt ||
+    Date.parse(record.leaseExpiresAt) < now;
+}
+
+const supabaseJobStore: JobStore = {
+  insert: insertJob,
+  update: updateJob,
+  get: getJob,
+  getByIdempotencyKey: getJobByIdempotencyKey,
+  listUnfinished: listUnfinishedJobs,
+  claim: claimJob,
+  renewLease: renewJobLease,
+};
+
+/**
+ * JSON file store for local runs without a database.
+ * The whole file is rewritten (via rename) on each change, which is fine at local volumes.
+ */
+function createFileJobStore(path: string): JobStore {
+  // One shared load, so concurrent first calls see the same map (duplicate checks rely on it)
+  let jobs: Promise<Map<string, JobRecord>> | null = null;
+  let writeChain: Promise<void> = Promise.resolve();
+
+  function load(): Promise<Map<string, JobRecord>> {
+    if (!jobs) {
+      jobs = (async () => {
+        try {
+          const records = JSON.parse(await readFile(path, 'utf8')) as JobRecord[];
+          return new Map(records.map(record => [record.id, record]));
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+          return new Map<string, JobRecord>();
+        }
+      })();
+      // Let the next call retry a failed read
+      jobs.catch(() => { jobs = null; });
+    }
+    return jobs;
+  }
+
+  function persist(records: Map<string, JobRecord>): Promise<void> {
+    // Serialise writes so a slow rename can't clobber a newer snapshot
+    writeChain = writeChain.then(async () => {
+      await mkdir(dirname(path), { recursive: true });
+      const tmpPath = `${path}.tmp`;
+      await writeFile(tmpPath, JSON.stringify([...records.values()], null, 2));
+      await rename(tmpPath, path);
+    });
+    return writeChain;
+  }
+
+  return {
+    async insert(record) {
+      const records = await load();
+      const key = record.idempotencyKey;
+      if (key && [...records.values()].some(existing => existing.idempotencyKey === key)) {
+        throw new DuplicateJobError(key);
+      }
+      records.set(record.id, record);
+      await persist(records);
+    },
+    async update(id, patch) {
+      const records = await load();
+      const existing = records.get(id);
+      if (!existing) throw new Error(`Job not found: ${id}`);
+      records.set(id, { ...existing, ...patch });
+      await persist(records);
+    },
+    async get(id) {
+      return (await load()).get(id) ?? null;
+    },
+    async getByIdempotencyKey(idempotencyKey) {
+      return [...(await load()).values()].find(record => record.idempotencyKey === idempotencyKey) ?? null;
+    },
+    async listUnfinished() {
+      const now = Date.now();
+      return [...(await load()).values()].filter(record =>
+        (record.status === 'queued' || record.status === 'running') && leaseAvailable(record, null, now)
+      );
+    },
+    async claim(id, owner, expectedAttempts, leaseExpiresAt) {
+      const records = await load();
+      const existing = records.get(id);
+      if (
+        !existing ||
+        existing.attempts !== expectedAttempts ||
+        (existing.status !== 'queued' && existing.status !== 'running') ||
+        !leaseAvailable(existing, owner, Date.now())
+      ) {
+        return null;
+      }
+
+      const claimed: JobRecord = {
+        ...existing,
+        status: 'running',
+        attempts: expectedAttempts + 1,
+        leaseOwner: owner,
+        leaseExpiresAt,
+        startedAt: new Date().toISOString(),
+      };
+      records.set(id, claimed);
+      await persist(records);
+      return claimed;
+    },
+    async renewLease(id, owner, leaseExpiresAt) {
+      const records = await load();
+      const existing = records.get(id);
+      if (!existing || existing.leaseOwner !== owner) return false;
+      records.set(id, { ...existing, leaseExpiresAt });
+      await persist(records);
+      return true;
+    },
+  };
+}
+
+export function createJobStore(): JobStore {
+  return config.jobStore === 'file' ? createFileJobStore(config.jobStoreFile) : supabaseJobStore;
+}
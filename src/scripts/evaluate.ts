@@ -0,0 +1,415 @@
+/**
+ * Score side, collage, quality and near-duplicate detection against a labelled fixture directory.
+ *
+ *   npm run eval -- <fixture-dir> [--out data/eval] [--side auto|heuristic] [--crop]
+ *
+ * fixtures/eval is a small labelled set (fronts, backs, lots, a blurry and a compressed photo) to run it against.
+ *
+ * <fixture-dir>/manifest.json lists the labelled images:
+ *
+ *   { "images": [
+ *     { "file": "fronts/025.jpg", "side": "front" },
+ *     { "file": "lots/binder.jpg", "side": "unknown", "collage": true, "cards": 9 },
+ *     { "file": "photos/blurry.jpg", "side": "front", "quality": ["blurry"] }
+ *   ] }
+ *
+ * `collage` defaults to false. `quality` is optional; images without it are left out of the
+ * quality scores, and `"quality": []` marks an image as clean, so any issue found on it is listed
+ * as a false positive. Near-duplicate hashing is scored on the single-card fronts: each is
+ * re-encoded (JPEG, WebP, downscaled) and compared with itself and with the other fronts.
+ * Writes eval-report.json and eval-report.md so runs can be diffed.
+ */
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { join, resolve } from 'path';
+import sharp from 'sharp';
+import { config } from '../config.js';
+import { logger } from '../utils/logger.js';
+import { QualityIssue, SideDetectionResult } from '../types.js';
+import { decodeImage } from '../pipeline/decode.js';
+import { detectSide, detectSideHeuristic } from '../pipeline/detect-side.js';
+import { detectCollage } from '../pipeline/collage.js';
+import { normalizeCard } from '../pipeline/crop.js';
+import { analyzeQuality, findQualityIssues } from '../pipeline/quality.js';
+import { computePhash, hammingDistance } from '../pipeline/phash.js';
+
+type Side = SideDetectionResult['side'];
+
+const SIDES: Side[] = ['front', 'back', 'unknown'];
+const QUALITY_ISSUES: QualityIssue[] = ['blurry', 'compressed', 'glare', 'watermark'];
+const SWEEP_THRESHOLDS = [0.5, 0.55, 0.6, 0.65, 0.7, 0.75, 0.8, 0.85, 0.9, 0.95];
+// Flags that take no value; every other --flag consumes the argument after it
+const BOOLEAN_FLAGS = ['--crop'];
+
+// Copies a source or reseller typically serves of the same image
+const REENCODINGS: Record<string, (image: Buffer) => Promise<Buffer>> = {
+  'jpeg q60': image => sharp(image).jpeg({ quality: 60 }).toBuffer(),
+  'png': image => sharp(image).png().toBuffer(),
+  'webp q75': image => sharp(image).webp({ quality: 75 }).toBuffer(),
+  'webp q75 twice': async image => sharp(await sharp(image).webp({ quality: 75 }).toBuffer()).webp({ quality: 75 }).toBuffer(),
+  'half size': image => sharp(image).resize({ width: 180 }).jpeg({ quality: 80 }).toBuffer(),
+};
+
+interface ManifestEntry {
+  file: string;
+  side: Side;
+  collage?: boolean;
+  cards?: number;
+  quality?: QualityIssue[];
+}
+
+interface ImageOutcome {
+  file: string;
+  expected: ManifestEntry;
+  side?: SideDetectionResult;
+  collage?: { isCollage: boolean; regions: number; method?: string };
+  qualityIssues?: QualityIssue[];
+  quality?: Record<string, number>;
+  error?: string;
+}
+
+interface BinaryScore {
+  truePositive: number;
+  falsePositive: number;
+  falseNegative: number;
+  trueNegative: number;
+  precision: number;
+  recall: number;
+}
+
+function parseArgs(argv: string[]): { dir: string; out: string; side: 'auto' | 'heuristic'; crop: boolean } {
+  const value = (name: string) => {
+    const index = argv.indexOf(`--${name}`);
+    return index >= 0 ? argv[index + 1] : undefined;
+  };
+
+  const takesValue = (flag: string | undefined) => flag?.startsWith('--') && !BOOLEAN_FLAGS.includes(flag);
+  const dir = argv.find((arg, i) => !arg.startsWith('--') && !takesValue(argv[i - 1]));
+  if (!dir) {
+    throw new Error('Usage: evaluate <fixture-dir> [--out dir] [--side auto|heuristic] [--crop]');
+  }
+
+  return {
+    dir: resolve(dir),
+    out: resolve(value('out') ?? './data/eval'),
+    side: value('side') === 'heuristic' ? 'heuristic' : 'auto',
+    crop: argv.includes('--crop'),
+  };
+}
+
+async function evaluateImage(
+  dir: string,
+  entry: ManifestEntry,
+  options: { side: 'auto' | 'heuristic'; crop: boolean }
+): Promise<ImageOutcome> {
+  const outcome: ImageOutcome = { file: entry.file, expected: entry };
+
+  try {
+    const bytes = await readFile(join(dir, entry.file));
+    const decoded = await decodeImage(bytes);
+    if (!decoded.ok) {
+      return { ...outcome, error: decoded.error };
+    }
+
+    const layout = await detectCollage(bytes);
+    outcome.collage = { isCollage: layout.isCollage, regions: layout.regions.length, method: layout.method };
+
+    // Same order as the pipeline: crop (photos only) before side and quality checks
+    let buffer: Buffer = bytes;
+    let metadata = decoded.metadata;
+    if (options.crop && !layout.isCollage) {
+      const cropResult = await normalizeCard(bytes);
+      if (cropResult.applied) {
+        buffer = cropResult.buffer;
+        metadata = cropResult.metadata;
+      }
+    }
+
+    outcome.side = options.side === 'heuristic'
+      ? await detectSideHeuristic(buffer, metadata)
+      : await detectSide(buffer, metadata);
+
+    const quality = await analyzeQuality(buffer);
+    outcome.quality = { ...quality };
+    outcome.qualityIssues = findQualityIssues(quality);
+  } catch (error) {
+    outcome.error = error instanceof Error ? error.message : 'Unknown';
+  }
+
+  return outcome;
+}
+
+function binaryScore(pairs: Array<{ expected: boolean; predicted: boolean }>): BinaryScore {
+  const count = (expected: boolean, predicted: boolean) =>
+    pairs.filter(pair => pair.expected === expected && pair.predicted === predicted).length;
+
+  const truePositive = count(true, true);
+  const falsePositive = count(false, true);
+  const falseNegative = count(true, false);
+
+  return {
+    truePositive,
+    falsePositive,
+    falseNegative,
+    trueNegative: count(false, false),
+    precision: ratio(truePositive, truePositive + falsePositive),
+    recall: ratio(truePositive, truePositive + falseNegative),
+  };
+}
+
+function ratio(numerator: number, denominator: number): number {
+  return denominator ? Math.round((numerator / denominator) * 1000) / 1000 : 0;
+}
+
+function scoreSides(outcomes: ImageOutcome[]) {
+  const scored = outcomes.filter(outcome => outcome.side);
+
+  // confusion[expected][predicted]
+  const confusion = Object.fromEntries(
+    SIDES.map(expected => [expected, Object.fromEntries(SIDES.map(predicted => [predicted, 0]))])
+  ) as Record<Side, Record<Side, number>>;
+  for (const { expected, side } of scored) {
+    confusion[expected.side][side!.side]++;
+  }
+
+  const perClass = Object.fromEntries(SIDES.map(label => [
+    label,
+    binaryScore(scored.map(({ expected, side }) => ({
+      expected: expected.side === label,
+      predicted: side!.side === label,
+    }))),
+  ]));
+
+  // What would be assigned at each threshold, and how much of it is right
+  const sweep = SWEEP_THRESHOLDS.map(threshold => {
+    const assigned = scored.filter(({ side }) => side!.side !== 'unknown' && side!.confidence >= threshold);
+    const correct = assigned.filter(({ expected, side }) => expected.side === side!.side).length;
+    return {
+      threshold,
+      assigned: assigned.length,
+      coverage: ratio(assigned.length, scored.length),
+      precision: ratio(correct, assigned.length),
+      wrong: assigned.length - correct,
+    };
+  });
+
+  return { samples: scored.length, confusion, perClass, sweep };
+}
+
+function scoreCollages(outcomes: ImageOutcome[]) {
+  const scored = outcomes.filter(outcome => outcome.collage);
+  const counted = scored.filter(({ expected, collage }) => expected.cards !== undefined && collage!.isCollage);
+
+  return {
+    samples: scored.length,
+    detection: binaryScore(scored.map(({ expected, collage }) => ({
+      expected: expected.collage ?? false,
+      predicted: collage!.isCollage,
+    }))),
+    // Of the lots detected as collages with a labelled card count, how many found every card
+    regionCountAccuracy: ratio(
+      counted.filter(({ expected, collage }) => expected.cards === collage!.regions).length,
+      counted.length
+    ),
+  };
+}
+
+function scoreQuality(outcomes: ImageOutcome[]) {
+  const labelled = outcomes.filter(outcome => outcome.expected.quality && outcome.qualityIssues);
+
+  return {
+    samples: labelled.length,
+    perIssue: Object.fromEntries(QUALITY_ISSUES.map(issue => [
+      issue,
+      binaryScore(labelled.map(({ expected, qualityIssues }) => ({
+        expected: expected.quality!.includes(issue),
+        predicted: qualityIssues!.includes(issue),
+      }))),
+    ])),
+    // Labelled images whose issues differ from the label, so a regression names the image
+    mismatches: labelled
+      .map(({ file, expected, qualityIssues }) => ({
+        file,
+        falsePositives: qualityIssues!.filter(issue => !expected.quality!.includes(issue)),
+        missed: expected.quality!.filter(issue => !qualityIssues!.includes(issue)),
+      }))
+      .filter(({ falsePositives, missed }) => falsePositives.length > 0 || missed.length > 0),
+  };
+}
+
+/**
+ * Hash distances between each front and its re-encodings, and between different fronts.
+ * PHASH_MAX_DISTANCE should sit above the first and well below the second.
+ */
+async function scoreNearDuplicates(dir: string, manifest: ManifestEntry[]) {
+  const fronts = manifest.filter(entry => entry.side === 'front' && !entry.collage);
+  const hashes: Array<{ file: string; phash: string }> = [];
+  const reencoded: Array<{ file: string; encoding: string; distance: number }> = [];
+
+  for (const entry of fronts) {
+    try {
+      const bytes = await readFile(join(dir, entry.file));
+      const phash = await computePhash(bytes);
+      hashes.push({ file: entry.file, phash });
+
+      for (const [encoding, reencode] of Object.entries(REENCODINGS)) {
+        reencoded.push({ file: entry.file, encoding, distance: hammingDistance(phash, await computePhash(await reencode(bytes))) });
+      }
+    } catch (error) {
+      logger.warn('Near-duplicate scoring skipped an image', {
+        file: entry.file,
+        error: error instanceof Error ? error.message : 'Unknown',
+      });
+    }
+  }
+
+  const different = hashes.flatMap((a, i) => hashes.slice(i + 1).map(b => ({
+    files: [a.file, b.file],
+    distance: hammingDistance(a.phash, b.phash),
+  })));
+
+  const sameDistances = reencoded.map(pair => pair.distance);
+  const differentDistances = different.map(pair => pair.distance);
+
+  return {
+    samples: hashes.length,
+    maxDistance: config.phashMaxDistance,
+    reencoded: {
+      max: sameDistances.length ? Math.max(...sameDistances) : null,
+      // Re-encodings the configured distance would miss
+      missed: sameDistances.filter(distance => distance > config.phashMaxDistance).length,
+      pairs: reencoded,
+    },
+    different: {
+      min: differentDistances.length ? Math.min(...differentDistances) : null,
+      // Different images the configured distance would treat as duplicates
+      merged: differentDistances.filter(distance => distance <= config.phashMaxDistance).length,
+      pairs: different,
+    },
+  };
+}
+
+function toMarkdown(report: Awaited<ReturnType<typeof buildReport>>): string {
+  const lines: string[] = [
+    `# Detection evaluation`,
+    '',
+    `- Fixtures: \`${report.fixtureDir}\` (${report.images} images, ${report.errors.length} errors)`,
+    `- Side method: ${report.options.side}${report.options.crop ? ', cropped' : ''}`,
+    `- Run at: ${report.generatedAt}`,
+    '',
+    `## Side detection (${report.side.samples} images)`,
+    '',
+    '| expected \\ predicted | ' + SIDES.join(' | ') + ' |',
+    '|---|' + SIDES.map(() => '---:').join('|') + '|',
+    ...SIDES.map(expected =>
+      `| ${expected} | ` + SIDES.map(predicted => report.side.confusion[expected][predicted]).join(' | ') + ' |'
+    ),
+    '',
+    '| class | precision | recall |',
+    '|---|---:|---:|',
+    ...SIDES.map(label => `| ${label} | ${report.side.perClass[label].precision} | ${report.side.perClass[label].recall} |`),
+    '',
+    `### Assignment threshold sweep (current: ${report.thresholds.minConfidenceForAssignment})`,
+    '',
+    '| threshold | assigned | coverage | precision | wrong |',
+    '|---:|---:|---:|---:|---:|',
+    ...report.side.sweep.map(row =>
+      `| ${row.threshold} | ${row.assigned} | ${row.coverage} | ${row.precision} | ${row.wrong} |`
+    ),
+    '',
+    `## Collage detection (${report.collage.samples} images)`,
+    '',
+    '| tp | fp | fn | tn | precision | recall | region count accuracy |',
+    '|---:|---:|---:|---:|---:|---:|---:|',
+    `| ${report.collage.detection.truePositive} | ${report.collage.detection.falsePositive} | ` +
+      `${report.collage.detection.falseNegative} | ${report.collage.detection.trueNegative} | ` +
+      `${report.collage.detection.precision} | ${report.collage.detection.recall} | ${report.collage.regionCountAccuracy} |`,
+    '',
+    `## Quality checks (${report.quality.samples} labelled images)`,
+    '',
+    '| issue | tp | fp | fn | precision | recall |',
+    '|---|---:|---:|---:|---:|---:|',
+    ...QUALITY_ISSUES.map(issue => {
+      const score = report.quality.perIssue[issue];
+      return `| ${issue} | ${score.truePositive} | ${score.falsePositive} | ${score.falseNegative} | ${score.precision} | ${score.recall} |`;
+    }),
+  ];
+
+  if (report.quality.mismatches.length > 0) {
+    lines.push(
+      '',
+      '| image | false positives | missed |',
+      '|---|---|---|',
+      ...report.quality.mismatches.map(({ file, falsePositives, missed }) =>
+        `| \`${file}\` | ${falsePositives.join(', ') || '-'} | ${missed.join(', ') || '-'} |`
+      ),
+    );
+  }
+
+  const { nearDuplicate } = report;
+  lines.push(
+    '',
+    `## Near-duplicate hashing (${nearDuplicate.samples} fronts, max distance ${nearDuplicate.maxDistance})`,
+    '',
+    '| pairs | count | closest / furthest | over the line |',
+    '|---|---:|---:|---:|',
+    `| re-encodings of the same image | ${nearDuplicate.reencoded.pairs.length} | max ${nearDuplicate.reencoded.max ?? '-'} | ` +
+      `${nearDuplicate.reencoded.missed} missed |`,
+    `| different images | ${nearDuplicate.different.pairs.length} | min ${nearDuplicate.different.min ?? '-'} | ` +
+      `${nearDuplicate.different.merged} merged |`,
+  );
+
+  if (report.errors.length > 0) {
+    lines.push('', '## Errors', '', ...report.errors.map(({ file, error }) => `- \`${file}\`: ${error}`));
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+async function buildReport(args: ReturnType<typeof parseArgs>) {
+  const manifest = JSON.parse(await readFile(join(args.dir, 'manifest.json'), 'utf8')) as { images: ManifestEntry[] };
+
+  const outcomes: ImageOutcome[] = [];
+  for (const entry of manifest.images) {
+    outcomes.push(await evaluateImage(args.dir, entry, args));
+  }
+
+  return {
+    generatedAt: new Date().toISOString(),
+    fixtureDir: args.dir,
+    options: { side: args.side, crop: args.crop },
+    thresholds: {
+      minConfidenceForAssignment: config.minConfidenceForAssignment,
+      visionCheckLowerBound: config.visionCheckLowerBound,
+      visionCheckUpperBound: config.visionCheckUpperBound,
+      qualityMinSharpness: config.qualityMinSharpness,
+      qualityMaxBlockiness: config.qualityMaxBlockiness,
+      qualityMaxGlareRatio: config.qualityMaxGlareRatio,
+      qualityMaxOverlayScore: config.qualityMaxOverlayScore,
+    },
+    images: outcomes.length,
+    side: scoreSides(outcomes),
+    collage: scoreCollages(outcomes),
+    quality: scoreQuality(outcomes),
+    nearDuplicate: await scoreNearDuplicates(args.dir, manifest.images),
+    errors: outcomes.filter(outcome => outcome.error).map(({ file, error }) => ({ file, error: error! })),
+    outcomes,
+  };
+}
+
+async function main(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2));
+  const report = await buildReport(args);
+
+  await mkdir(args.out, { recursive: true });
+  await writeFile(join(args.out, 'eval-report.json'), JSON.stringify(report, null, 2));
+  const markdown = toMarkdown(report);
+  await writeFile(join(args.out, 'eval-report.md'), markdown);
+
+  process.stdout.write(markdown);
+  logger.info('Evaluation written', { out: args.out, images: report.images, errors: report.errors.length });
+}
+
+main().catch(error => {
+  logger.error('Evaluation failed', { error: error instanceof Error ? error.message : 'Unknown' });
+  process.exit(1);
+});
@@ -0,0 +1,220 @@
+/**
+ * Train the side classifier from images whose side is confirmed (reviewed, or set by vision).
+ *
+ *   npm run train:side-model -- [--out models/side-model.json] [--limit 5000] [--epochs 2000]
+ *
+ * Features are computed on the same image the pipeline classifies (the stored original with
+ * its crop re-applied). A deterministic split by sha256 holds out one set for Platt calibration
+ * and a separate test set for the reported metrics.
+ */
+import { mkdir, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { config } from '../config.js';
+import { logger } from '../utils/logger.js';
+import { downloadOriginal } from '../storage/upload.js';
+import { warpToCard } from '../pipeline/crop.js';
+import { extractSideFeatures, sideLogit, sigmoid, SideModel, SIDE_FEATURE_VERSION } from '../pipeline/side-model.js';
+import { ConfirmedSideImage, listConfirmedSideImages } from '../db/queries.js';
+
+const PAGE_SIZE = 200;
+const LEARNING_RATE = 0.5;
+const L2 = 1e-3;
+const MIN_CALIBRATION_SAMPLES = 20;
+
+interface Sample {
+  features: number[];
+  // 1 = back, 0 = front
+  label: number;
+}
+
+function parseArgs(argv: string[]): { out: string; limit: number; epochs: number } {
+  const value = (name: string) => {
+    const index = argv.indexOf(`--${name}`);
+    return index >= 0 ? argv[index + 1] : undefined;
+  };
+
+  return {
+    out: value('out') ?? config.sideModelPath,
+    limit: parseInt(value('limit') ?? '5000', 10),
+    epochs: parseInt(value('epochs') ?? '2000', 10),
+  };
+}
+
+interface SampleSplit {
+  train: Sample[];
+  calibration: Sample[];
+  test: Sample[];
+}
+
+/**
+ * First hex digit of the sha256: 0-a (11/16) trains, b-c calibrates, d-f is the test set - stable across runs
+ */
+function splitFor(sha256: string): keyof SampleSplit {
+  const digit = parseInt(sha256[0], 16);
+  return digit < 11 ? 'train' : digit < 13 ? 'calibration' : 'test';
+}
+
+async function loadSamples(limit: number): Promise<SampleSplit> {
+  const split: SampleSplit = { train: [], calibration: [], test: [] };
+  let afterId: string | null = null;
+  let seen = 0;
+
+  while (seen < limit) {
+    const page: ConfirmedSideImage[] = await listConfirmedSideImages(afterId, Math.min(PAGE_SIZE, limit - seen));
+    if (page.length === 0) break;
+
+    for (const image of page) {
+      try {
+        const original = await downloadOriginal(image.originalStoragePath!);
+        const working = image.cropRegion ? (await warpToCard(original, image.cropRegion.corners)).buffer : original;
+        const sample = { features: await extractSideFeatures(working), label: image.side === 'back' ? 1 : 0 };
+
+        split[splitFor(image.sha256)].push(sample);
+      } catch (error) {
+        logger.warn('Skipping training image', { imageId: image.id, error: error instanceof Error ? error.message : 'Unknown' });
+      }
+    }
+
+    seen += page.length;
+    afterId = page[page.length - 1].id;
+    logger.info('Loaded training images', {
+      seen,
+      train: split.train.length,
+      calibration: split.calibration.length,
+      test: split.test.length,
+    });
+  }
+
+  return split;
+}
+
+function standardise(samples: Sample[]): { mean: number[]; std: number[] } {
+  const dimensions = samples[0].features.length;
+  const mean = new Array(dimensions).fill(0);
+  const std = new Array(dimensions).fill(0);
+
+  for (const { features } of samples) features.forEach((value, i) => { mean[i] += value / samples.length; });
+  for (const { features } of samples) features.forEach((value, i) => { std[i] += (value - mean[i]) ** 2 / samples.length; });
+
+  return { mean, std: std.map(variance => Math.sqrt(variance) || 1) };
+}
+
+/**
+ * Class-balanced logistic regression with L2, by full-batch gradient descent
+ */
+function fitLogistic(samples: Sample[], epochs: number): Pick<SideModel, 'mean' | 'std' | 'weights' | 'bias'> {
+  const { mean, std } = standardise(samples);
+  const model = { mean, std, weights: new Array(mean.length).fill(0), bias: 0 };
+
+  const backs = samples.filter(sample => sample.label === 1).length;
+  const classWeight = [samples.length / (2 * (samples.length - backs)), samples.length / (2 * backs)];
+  const inputs = samples.map(({ features }) => features.map((value, i) => (value - mean[i]) / std[i]));
+
+  for (let epoch = 0; epoch < epochs; epoch++) {
+    const gradient = new Array(mean.length).fill(0);
+    let biasGradient = 0;
+
+    samples.forEach((sample, n) => {
+      const error = (sigmoid(sideLogit(model, sample.features)) - sample.label) * classWeight[sample.label];
+      inputs[n].forEach((value, i) => { gradient[i] += error * value; });
+      biasGradient += error;
+    });
+
+    model.weights = model.weights.map((weight, i) =>
+      weight - LEARNING_RATE * (gradient[i] / samples.length + L2 * weight)
+    );
+    model.bias -= LEARNING_RATE * biasGradient / samples.length;
+  }
+
+  return model;
+}
+
+/**
+ * Platt scaling: fit P = sigmoid(a * logit + b) on held-out logits
+ */
+function fitCalibration(logits: number[], labels: number[]): SideModel['calibration'] {
+  if (logits.length < MIN_CALIBRATION_SAMPLES) {
+    logger.warn('Too few held-out images to calibrate, using raw probabilities', { count: logits.length });
+    return { a: 1, b: 0 };
+  }
+
+  let a = 1;
+  let b = 0;
+  for (let iteration = 0; iteration < 1000; iteration++) {
+    let gradientA = 0;
+    let gradientB = 0;
+    logits.forEach((logit, n) => {
+      const error = sigmoid(a * logit + b) - labels[n];
+      gradientA += error * logit;
+      gradientB += error;
+    });
+    a -= 0.1 * gradientA / logits.length;
+    b -= 0.1 * gradientB / logits.length;
+  }
+  return { a, b };
+}
+
+function evaluate(model: SideModel, samples: Sample[]): Record<string, number> {
+  let correct = 0, truePositive = 0, falsePositive = 0, falseNegative = 0, logLoss = 0;
+
+  for (const { features, label } of samples) {
+    const pBack = sigmoid(model.calibration.a * sideLogit(model, features) + model.calibration.b);
+    const predicted = pBack >= 0.5 ? 1 : 0;
+
+    if (predicted === label) correct++;
+    if (predicted === 1 && label === 1) truePositive++;
+    if (predicted === 1 && label === 0) falsePositive++;
+    if (predicted === 0 && label === 1) falseNegative++;
+    logLoss -= Math.log(Math.max(1e-9, label ? pBack : 1 - pBack));
+  }
+
+  const round = (value: number) => Math.round(value * 1000) / 1000;
+  return {
+    samples: samples.length,
+    accuracy: round(correct / (samples.length || 1)),
+    backPrecision: round(truePositive / (truePositive + falsePositive || 1)),
+    backRecall: round(truePositive / (truePositive + falseNegative || 1)),
+    logLoss: round(logLoss / (samples.length || 1)),
+  };
+}
+
+async function main(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2));
+  const { train, calibration: calibrationSet, test } = await loadSamples(args.limit);
+
+  const backs = train.filter(sample => sample.label === 1).length;
+  if (backs === 0 || backs === train.length) {
+    throw new Error(`Need confirmed fronts and backs to train (have ${train.length - backs} fronts, ${backs} backs)`);
+  }
+
+  const fitted = fitLogistic(train, args.epochs);
+  const calibration = fitCalibration(
+    calibrationSet.map(sample => sideLogit(fitted, sample.features)),
+    calibrationSet.map(sample => sample.label)
+  );
+
+  const model: SideModel = {
+    featureVersion: SIDE_FEATURE_VERSION,
+    trainedAt: new Date().toISOString(),
+    ...fitted,
+    calibration,
+  };
+
+  // Test images were used for neither the weights nor the calibration
+  const trainMetrics = evaluate(model, train);
+  const testMetrics = evaluate(model, test);
+  model.metrics = Object.fromEntries([
+    ...Object.entries(trainMetrics).map(([key, value]) => [`train_${key}`, value]),
+    ...Object.entries(testMetrics).map(([key, value]) => [`test_${key}`, value]),
+  ]);
+
+  await mkdir(dirname(args.out), { recursive: true });
+  await writeFile(args.out, JSON.stringify(model, null, 2));
+
+  logger.info('Side model written', { out: args.out, train: trainMetrics, test: testMetrics });
+}
+
+main().catch(error => {
+  logger.error('Side model training failed', { error: error instanceof Error ? error.message : 'Unknown' });
+  process.exit(1);
+});
@@ -0,0 +1,53 @@
+import { config } from '../config.js';
+import { createSupabaseStorage } from './supabase.js';
+import { createS3Storage } from './s3.js';
+import { createLocalStorage } from './local.js';
+
+export interface PutOptions {
+  contentType: string;
+  cacheControl: string;
+}
+
+export interface StoredObject {
+  size: number;
+  contentType?: string;
+}
+
+/**
+ * Backend-agnostic object storage. Paths are bucket-relative (e.g. derivatives/ab/<sha>/thumb.webp).
+ */
+export interface StorageAdapter {
+  name: string;
+  put(path: string, body: Buffer, options: PutOptions): Promise<void>;
+  get(path: string): Promise<Buffer>;
+  head(path: string): Promise<StoredObject | null>;
+  delete(path: string): Promise<void>;
+  publicUrl(path: string): string;
+}
+
+let storage: StorageAdapter | null = null;
+let originalsStorage: StorageAdapter | null = null;
+
+function createStorage(bucket: 'public' | 'originals'): StorageAdapter {
+  const originals = bucket === 'originals';
+  switch (config.storageBackend) {
+    case 's3':
+      return createS3Storage(originals ? config.s3OriginalsBucket : config.s3Bucket);
+    case 'local':
+      return createLocalStorage(originals ? config.localOriginalsDir : config.localStorageDir);
+    default:
+      return createSupabaseStorage(originals ? config.originalsBucket : config.cardImagesBucket);
+  }
+}
+
+/** Public storage for derivatives */
+export function getStorage(): StorageAdapter {
+  storage ??= createStorage('public');
+  return storage;
+}
+
+/** Private storage for originals; nothing in it has a usable public URL */
+export function getOriginalsStorage(): StorageAdapter {
+  originalsStorage ??= createStorage('originals');
+  return originalsStorage;
+}
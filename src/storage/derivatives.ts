@@ -1,11 +1,29 @@
 import sharp from 'sharp';
 import { config } from '../config.js';
-import { DerivativeResult } from '../types.js';
+import { DerivativeFormat, DerivativeResult } from '../types.js';
 import { getDerivativeStoragePath } from '../utils/hash.js';
 import { logger } from '../utils/logger.js';
 
 type Variant = 'thumb' | 'grid' | 'detail';
 
+const CONTENT_TYPES: Record<DerivativeFormat, string> = {
+  webp: 'image/webp',
+  avif: 'image/avif',
+  jpeg: 'image/jpeg',
+};
+
+function encode(image: sharp.Sharp, format: DerivativeFormat, quality: number): sharp.Sharp {
+  switch (format) {
+    case 'avif':
+      return image.avif({ quality });
+    case 'jpeg':
+      // JPEG has no alpha channel - flatten onto white rather than sharp's default black
+      return image.flatten({ background: '#ffffff' }).jpeg({ quality, mozjpeg: true });
+    default:
+      return image.webp({ quality });
+  }
+}
+
 export async function generateDerivatives(
   buffer: Buffer,
   sha256: string,
@@ -20,40 +38,45 @@ export async function generateDerivatives(
     // Don't upscale - if original is smaller than target, use original size
     const targetWidth = Math.min(settings.width, originalWidth);
 
-    try {
-      const processed = await sharp(buffer)
-        .resize(targetWidth, null, {
+    for (const format of settings.formats) {
+      try {
+        const resized = sharp(buffer).resize(targetWidth, null, {
           fit: 'inside',
           withoutEnlargement: true,
-        })
-        .webp({ quality: settings.quality })
-        .toBuffer();
-
-      const metadata = await sharp(processed).metadata();
-
-      const storagePath = getDerivativeStoragePath(sha256, variant);
-
-      results.push({
-        variant,
-        buffer: processed,
-        width: metadata.width || targetWidth,
-        height: metadata.height || 0,
-        bytes: processed.length,
-        storagePath,
-      });
-
-      logger.info('Generated derivative', {
-        variant,
-        width: metadata.width,
-        height: metadata.height,
-        bytes: processed.length,
-      });
-    } catch (error) {
-      logger.error('Failed to generate derivative', {
-        variant,
-        error: error instanceof Error ? error.message : 'Unknown',
-      });
-      throw error;
+        });
+
+        const processed = await encode(resized, format, settings.quality).toBuffer();
+
+        const metadata = await sharp(processed).metadata();
+
+        const storagePath = getDerivativeStoragePath(sha256, variant, format);
+
+        results.push({
+          variant,
+          format,
+          contentType: CONTENT_TYPES[format],
+          buffer: processed,
+          width: metadata.width || targetWidth,
+          height: metadata.height || 0,
+          bytes: processed.length,
+          storagePath,
+        });
+
+        logger.info('Generated derivative', {
+          variant,
+          format,
+          width: metadata.width,
+          height: metadata.height,
+          bytes: processed.length,
+        });
+      } catch (error) {
+        logger.error('Failed to generate derivative', {
+          variant,
+          format,
+          error: error instanceof Error ? error.message : 'Unknown',
+        });
+        throw error;
+      }
     }
   }
 
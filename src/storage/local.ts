@@ -0,0 +1,53 @@
+import { mkdir, readFile, rm, stat, writeFile } from 'fs/promises';
+import { dirname, resolve, sep } from 'path';
+import { config } from '../config.js';
+import type { StorageAdapter } from './adapter.js';
+
+/**
+ * Plain directory storage for local runs. Files in LOCAL_STORAGE_DIR are served by the /storage
+ * route in index.ts; originals get their own directory, which is not served.
+ */
+export function createLocalStorage(dir: string): StorageAdapter {
+  const root = resolve(dir);
+
+  // Keep every key inside the storage root
+  function toFilePath(path: string): string {
+    const filePath = resolve(root, path);
+    if (!filePath.startsWith(root + sep)) {
+      throw new Error(`Invalid storage path: ${path}`);
+    }
+    return filePath;
+  }
+
+  return {
+    name: 'local',
+
+    async put(path, body) {
+      const filePath = toFilePath(path);
+      await mkdir(dirname(filePath), { recursive: true });
+      await writeFile(filePath, body);
+    },
+
+    get(path) {
+      return readFile(toFilePath(path));
+    },
+
+    async head(path) {
+      try {
+        const stats = await stat(toFilePath(path));
+        return { size: stats.size };
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+
+    async delete(path) {
+      await rm(toFilePath(path), { force: true });
+    },
+
+    publicUrl(path) {
+      return `${config.localStoragePublicUrl.replace(/\/$/, '')}/${path}`;
+    },
+  };
+}
@@ -0,0 +1,70 @@
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  DeleteObjectCommand,
+  NotFound,
+} from '@aws-sdk/client-s3';
+import { config } from '../config.js';
+import type { StorageAdapter } from './adapter.js';
+
+/**
+ * S3-compatible storage (AWS S3, Cloudflare R2, MinIO)
+ */
+export function createS3Storage(bucketName: string): StorageAdapter {
+  const client = new S3Client({
+    endpoint: config.s3Endpoint || undefined,
+    region: config.s3Region,
+    forcePathStyle: config.s3ForcePathStyle,
+    credentials: {
+      accessKeyId: config.s3AccessKeyId,
+      secretAccessKey: config.s3SecretAccessKey,
+    },
+  });
+  const Bucket = bucketName;
+
+  return {
+    name: 's3',
+
+    async put(path, body, options) {
+      await client.send(new PutObjectCommand({
+        Bucket,
+        Key: path,
+        Body: body,
+        ContentType: options.contentType,
+        CacheControl: options.cacheControl,
+      }));
+    },
+
+    async get(path) {
+      const response = await client.send(new GetObjectCommand({ Bucket, Key: path }));
+      if (!response.Body) {
+        throw new Error(`Download failed: empty body for ${path}`);
+      }
+      return Buffer.from(await response.Body.transformToByteArray());
+    },
+
+    async head(path) {
+      try {
+        const response = await client.send(new HeadObjectCommand({ Bucket, Key: path }));
+        return { size: response.ContentLength ?? 0, contentType: response.ContentType };
+      } catch (error) {
+        if (error instanceof NotFound) return null;
+        throw error;
+      }
+    },
+
+    async delete(path) {
+      await client.send(new DeleteObjectCommand({ Bucket, Key: path }));
+    },
+
+    publicUrl(path) {
+      if (config.s3PublicBaseUrl) {
+        return `${config.s3PublicBaseUrl.replace(/\/$/, '')}/${path}`;
+      }
+      const endpoint = (config.s3Endpoint || `https://s3.${config.s3Region}.amazonaws.com`).replace(/\/$/, '');
+      return `${endpoint}/${Bucket}/${path}`;
+    },
+  };
+}
@@ -0,0 +1,63 @@
+import { getSupabase } from '../db/client.js';
+import { config } from '../config.js';
+import type { StorageAdapter } from './adapter.js';
+
+export function createSupabaseStorage(bucketName: string): StorageAdapter {
+  const bucket = () => getSupabase().storage.from(bucketName);
+
+  return {
+    name: 'supabase',
+
+    async put(path, body, options) {
+      const { error } = await bucket().upload(path, body, {
+        contentType: options.contentType,
+        cacheControl: options.cacheControl,
+        upsert: true,
+      });
+
+      if (error) {
+        throw new Error(`Upload failed: ${error.message}`);
+      }
+    },
+
+    async get(path) {
+      const { data, error } = await bucket().download(path);
+
+      if (error || !data) {
+        throw new Error(`Download failed: ${error?.message ?? 'no data'}`);
+      }
+
+      return Buffer.from(await data.arrayBuffer());
+    },
+
+    async head(path) {
+      const slash = path.lastIndexOf('/');
+      const { data, error } = await bucket().list(path.substring(0, slash), {
+        search: path.substring(slash + 1),
+        limit: 1,
+      });
+
+      if (error) {
+        throw new Error(`Head failed: ${error.message}`);
+      }
+
+      const object = data?.find(item => item.name === path.substring(slash + 1));
+      return object ? {
+        size: object.metadata?.size ?? 0,
+        contentType: object.metadata?.mimetype,
+      } : null;
+    },
+
+    async delete(path) {
+      const { error } = await bucket().remove([path]);
+
+      if (error) {
+        throw new Error(`Delete failed: ${error.message}`);
+      }
+    },
+
+    publicUrl(path) {
+      return `${config.supabaseUrl}/storage/v1/object/public/${bucketName}/${path}`;
+    },
+  };
+}
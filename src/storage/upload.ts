@@ -1,27 +1,22 @@
-import { getSupabase } from '../db/client.js';
-import { config } from '../config.js';
 import { DerivativeResult } from '../types.js';
 import { logger } from '../utils/logger.js';
+import { metrics, timeStage } from '../utils/metrics.js';
+import { getOriginalsStorage, getStorage } from './adapter.js';
 
 export async function uploadDerivatives(derivatives: DerivativeResult[]): Promise<void> {
-  const supabase = getSupabase();
+  const storage = getStorage();
 
   for (const derivative of derivatives) {
     try {
-      const { error } = await supabase.storage
-        .from(config.cardImagesBucket)
-        .upload(derivative.storagePath, derivative.buffer, {
-          contentType: 'image/webp',
-          cacheControl: 'public, max-age=31536000, immutable',
-          upsert: true,
-        });
-
-      if (error) {
-        throw new Error(`Upload failed: ${error.message}`);
-      }
+      await timeStage('upload', () => storage.put(derivative.storagePath, derivative.buffer, {
+        contentType: derivative.contentType,
+        cacheControl: 'public, max-age=31536000, immutable',
+      }), { 'storage.backend': storage.name, 'storage.path': derivative.storagePath, 'storage.bytes': derivative.bytes });
+      metrics.bytesStored.inc({ kind: 'derivative' }, derivative.bytes);
 
       logger.info('Uploaded derivative', {
         variant: derivative.variant,
+        format: derivative.format,
         path: derivative.storagePath,
         bytes: derivative.bytes,
       });
@@ -36,6 +31,73 @@ export async function uploadDerivatives(derivatives: DerivativeResult[]): Promis
   }
 }
 
+/**
+ * Delete derivative files that no longer have a row (e.g. a format dropped from the config).
+ * Failures only leave an orphaned file, so they are logged rather than thrown.
+ */
+export async function deleteDerivativeFiles(storagePaths: string[]): Promise<void> {
+  const storage = getStorage();
+
+  for (const path of storagePaths) {
+    try {
+      await storage.delete(path);
+      logger.info('Deleted stale derivative', { path });
+    } catch (error) {
+      logger.warn('Failed to delete stale derivative', {
+        path,
+        error: error instanceof Error ? error.message : 'Unknown',
+      });
+    }
+  }
+}
+
+export async function uploadOriginal(storagePath: string, buffer: Buffer, contentType: string): Promise<void> {
+  const storage = getOriginalsStorage();
+
+  try {
+    await timeStage('upload', () => storage.put(storagePath, buffer, {
+      contentType,
+      cacheControl: 'private, max-age=31536000, immutable',
+    }), { 'storage.backend': storage.name, 'storage.path': storagePath, 'storage.bytes': buffer.length });
+    metrics.bytesStored.inc({ kind: 'original' }, buffer.length);
+  } catch (error) {
+    logger.error('Failed to upload original', {
+      path: storagePath,
+      error: error instanceof Error ? error.message : 'Unknown',
+    });
+    throw error;
+  }
+
+  logger.info('Uploaded original', { path: storagePath, bytes: buffer.length });
+}
+
+/**
+ * Read an original from private storage. Originals stored before they moved out of the public
+ * bucket are moved over on first read, so a regenerate of everything migrates them all.
+ */
+export async function downloadOriginal(storagePath: string): Promise<Buffer> {
+  const originals = getOriginalsStorage();
+  if (await originals.head(storagePath)) {
+    return originals.get(storagePath);
+  }
+
+  const legacy = getStorage();
+  const stored = await legacy.head(storagePath);
+  if (!stored) {
+    throw new Error(`Original not found: ${storagePath}`);
+  }
+
+  const buffer = await legacy.get(storagePath);
+  await originals.put(storagePath, buffer, {
+    contentType: stored.contentType ?? 'application/octet-stream',
+    cacheControl: 'private, max-age=31536000, immutable',
+  });
+  await legacy.delete(storagePath);
+
+  logger.info('Moved original to private storage', { path: storagePath });
+  return buffer;
+}
+
 export function getPublicUrl(storagePath: string): string {
-  return `${config.supabaseUrl}/storage/v1/object/public/${config.cardImagesBucket}/${storagePath}`;
+  return getStorage().publicUrl(storagePath);
 }
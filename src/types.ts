@@ -7,40 +7,226 @@ export interface ImageJob {
   priority?: number;
   cardNumber?: string;
   setCode?: string;
+  // For lot photos: card ids in the collage's reading order (row by row, left to right)
+  collageCardIds?: string[];
+  // Collector numbers in the same order, to OCR-check each region before it's assigned by position
+  collageCardNumbers?: string[];
+  // Replace the card's current image even if it scores higher than this one
+  forceAssign?: boolean;
+}
+
+// Rebuild derivatives for every stored original (POST /regenerate with all: true)
+export interface RegenerateAllJob {
+  kind: 'regenerate_all';
+}
+
+export type QueuedJob = ImageJob | RegenerateAllJob;
+
+export interface RegenerateAllResult {
+  status: 'completed';
+  total: number;
+  failed: number;
 }
 
 export interface ProcessResult {
-  status: 'completed' | 'failed' | 'deduplicated' | 'rejected' | 'rate_limited';
+  status: 'completed' | 'failed' | 'deduplicated' | 'near_duplicate' | 'not_modified' | 'rejected' | 'rate_limited';
   imageId?: string;
+  duplicateOf?: string;
   error?: string;
+  // Failed for a transient reason (network, timeout, 5xx, storage or database errors); only these are retried
+  retryable?: boolean;
+  retryAfterMs?: number;
+  reason?: RejectionReason;
   sha256?: string;
   detectedSide?: 'front' | 'back' | 'unknown';
   confidence?: number;
+  role?: ImageRole;
+  backDesign?: BackDesign;
+  quality?: ImageQuality;
+  qualityIssues?: QualityIssue[];
+  identity?: IdentityVerification;
+  children?: CollageChildResult[];
+}
+
+export interface CollageChildResult {
+  region: number;
+  imageId: string;
+  status: 'created' | 'deduplicated' | 'near_duplicate';
+  side: 'front' | 'back' | 'unknown';
+  confidence: number;
+  // Reused children report the stored image's side, confidence and quality
+  qualityIssues?: QualityIssue[];
+  // Collector number check against collageCardNumbers, when one is listed for the region,
+  // or against the job's cardNumber for the lone confident front of a lot without a card list
+  identity?: IdentityVerification;
+  // Reused child a reviewer rejected; never assigned automatically
+  rejectedInReview?: boolean;
+  assignedCardId?: string;
+}
+
+export type PolicyDenialReason =
+  | 'unknown_source'
+  | 'source_disallowed'
+  | 'invalid_url'
+  | 'host_mismatch'
+  | 'dns_failed'
+  | 'private_address'
+  | 'too_many_redirects';
+
+export type RejectionReason = PolicyDenialReason | 'low_confidence' | 'low_quality' | 'wrong_card' | 'kept_existing';
+
+export type PipelineStage =
+  | 'fetching'
+  | 'decoding'
+  | 'detecting'
+  | 'generating_derivatives'
+  | 'uploading'
+  | 'assigning';
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface JobRecord {
+  id: string;
+  status: JobStatus;
+  stage?: PipelineStage;
+  job: QueuedJob;
+  // QStash message that delivered the job, when it came through the webhook
+  messageId?: string;
+  // Caller's Idempotency-Key header, else the QStash message id; unique across jobs
+  idempotencyKey?: string;
+  result?: ProcessResult | RegenerateAllResult;
+  attempts: number;
+  // Worker holding the job (running it, or holding it queued in memory) until the lease expires
+  leaseOwner?: string;
+  leaseExpiresAt?: string;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+export type FetchErrorKind =
+  | 'network'
+  | 'timeout'
+  | 'http_server'
+  | 'http_client'
+  | 'too_large'
+  | 'invalid_content'
+  | 'policy';
+
+export interface FetchValidators {
+  etag?: string;
+  lastModified?: string;
+  sha256?: string;
+  // Card the stored image was fetched for
+  cardId?: string;
 }
 
 export interface FetchResult {
   ok: boolean;
   bytes?: Buffer;
-  contentType?: string;
+  contentType?: string; // sniffed from the bytes
+  declaredContentType?: string; // as sent by the server
   error?: string;
+  errorKind?: FetchErrorKind;
   httpStatus?: number;
+  retryAfterMs?: number;
+  policyDenial?: PolicyDenialReason;
+  notModified?: boolean;
+  etag?: string;
+  lastModified?: string;
+  attempts?: number;
 }
 
+export type BackDesign = 'international' | 'japanese';
+
+export type ImageRole = 'primary_front' | 'primary_back';
+
+export interface ImageQuality {
+  // Variance of the Laplacian (higher is sharper)
+  sharpness: number;
+  // Step size across 8x8 block boundaries relative to inside blocks (1 = no visible blocks)
+  blockiness: number;
+  // Fraction of the card that is blown-out highlight
+  glareRatio: number;
+  // Fraction of the artwork covered by colourless hard-edged strokes (overlaid text/watermarks)
+  overlayScore: number;
+}
+
+export interface VisionAnalysis {
+  side: 'front' | 'back' | 'unknown';
+  // Whether the card matches the job's card number/set; 'unsure' when not asked or not legible
+  identityMatch: 'match' | 'mismatch' | 'unsure';
+  // ISO 639-1 code of the card's printed language, when the model can tell
+  language: string | null;
+  conditionNotes: string[];
+  // Model's self-reported confidence in its side answer, 0-1
+  confidence: number;
+}
+
+export interface VisionCheckResult extends SideDetectionResult {
+  analysis?: VisionAnalysis;
+}
+
+export interface IdentityVerification {
+  verdict: 'match' | 'mismatch' | 'unreadable';
+  expected: string;
+  // Collector number as read from the card, normalised (leading zeros dropped)
+  read: string | null;
+  // OCR engine confidence, 0-1
+  confidence: number;
+  error?: string;
+}
+
+export type QualityIssue = 'blurry' | 'compressed' | 'glare' | 'watermark';
+
 export interface SideDetectionResult {
   side: 'front' | 'back' | 'unknown';
   confidence: number;
-  method: 'heuristic' | 'vision' | 'manual';
+  method: 'heuristic' | 'model' | 'vision' | 'manual';
+  backDesign?: BackDesign;
 }
 
 export interface ImageMetadata {
   width: number;
   height: number;
   format: string;
+  mime: string;
   size: number;
 }
 
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface CardQuad {
+  corners: [Point, Point, Point, Point]; // tl, tr, br, bl in auto-oriented source pixels
+  boundingBox: Region;
+  rotation: number; // degrees, top edge relative to horizontal
+  coverage: number; // fraction of the image covered by the card
+}
+
+export interface Region {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export interface CollageLayout {
+  isCollage: boolean;
+  method?: 'components' | 'grid';
+  rows?: number;
+  cols?: number;
+  regions: Region[]; // reading order, in auto-oriented source pixels
+}
+
+export type DerivativeFormat = 'webp' | 'avif' | 'jpeg';
+
 export interface DerivativeResult {
   variant: 'thumb' | 'grid' | 'detail';
+  format: DerivativeFormat;
+  contentType: string;
   buffer: Buffer;
   width: number;
   height: number;
@@ -58,6 +244,15 @@ export interface ImageSource {
   isAllowed: boolean;
 }
 
+export interface NearDuplicateMatch {
+  id: string;
+  phash: string;
+  distance: number;
+  width: number;
+  height: number;
+  trustTier: number | null;
+}
+
 // Known error payloads (bad responses from sources)
 export const KNOWN_ERROR_PAYLOADS: Record<string, number[]> = {
   // pokemontcg.io returns this 186316 byte file for missing images
@@ -8,7 +8,13 @@ export function getStoragePathPrefix(sha256: string): string {
   return sha256.substring(0, 2);
 }
 
-export function getDerivativeStoragePath(sha256: string, variant: string): string {
+export function getDerivativeStoragePath(sha256: string, variant: string, format = 'webp'): string {
   const prefix = getStoragePathPrefix(sha256);
-  return `derivatives/${prefix}/${sha256}/${variant}.webp`;
+  const extension = format === 'jpeg' ? 'jpg' : format;
+  return `derivatives/${prefix}/${sha256}/${variant}.${extension}`;
+}
+
+export function getOriginalStoragePath(sha256: string, format: string): string {
+  const prefix = getStoragePathPrefix(sha256);
+  return `originals/${prefix}/${sha256}/original.${format}`;
 }
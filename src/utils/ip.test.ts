@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { isPrivateAddress } from './ip.js';
+
+describe('isPrivateAddress', () => {
+  it.each([
+    '127.0.0.1',
+    '10.1.2.3',
+    '172.16.0.1',
+    '172.31.255.255',
+    '192.168.1.1',
+    '169.254.169.254',
+    '100.64.0.1',
+    '0.0.0.0',
+    '224.0.0.1',
+    '255.255.255.255',
+  ])('blocks IPv4 %s', address => {
+    expect(isPrivateAddress(address)).toBe(true);
+  });
+
+  it.each(['::', '::1', 'fc00::1', 'fd12:3456::1', 'fe80::1', 'ff02::1', '64:ff9b::a00:1', '2002:a00:1::1'])(
+    'blocks IPv6 %s',
+    address => {
+      expect(isPrivateAddress(address)).toBe(true);
+    }
+  );
+
+  it('checks IPv4-mapped IPv6 addresses as the embedded IPv4 address', () => {
+    expect(isPrivateAddress('::ffff:127.0.0.1')).toBe(true);
+    expect(isPrivateAddress('::FFFF:10.0.0.1')).toBe(true);
+    expect(isPrivateAddress('::ffff:93.184.216.34')).toBe(false);
+  });
+
+  it.each(['93.184.216.34', '8.8.8.8', '172.32.0.1', '2606:4700::1111'])('allows public address %s', address => {
+    expect(isPrivateAddress(address)).toBe(false);
+  });
+
+  it('refuses anything that is not an IP address', () => {
+    expect(isPrivateAddress('localhost')).toBe(true);
+    expect(isPrivateAddress('')).toBe(true);
+  });
+});
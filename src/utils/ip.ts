@@ -0,0 +1,46 @@
+import { BlockList, isIP } from 'net';
+
+// Address ranges a fetched URL must never resolve to
+const blocked = new BlockList();
+
+// IPv4
+blocked.addSubnet('0.0.0.0', 8, 'ipv4'); // "this" network
+blocked.addSubnet('10.0.0.0', 8, 'ipv4'); // private
+blocked.addSubnet('100.64.0.0', 10, 'ipv4'); // carrier-grade NAT
+blocked.addSubnet('127.0.0.0', 8, 'ipv4'); // loopback
+blocked.addSubnet('169.254.0.0', 16, 'ipv4'); // link-local (cloud metadata)
+blocked.addSubnet('172.16.0.0', 12, 'ipv4'); // private
+blocked.addSubnet('192.0.0.0', 24, 'ipv4'); // IETF protocol assignments
+blocked.addSubnet('192.168.0.0', 16, 'ipv4'); // private
+blocked.addSubnet('198.18.0.0', 15, 'ipv4'); // benchmarking
+blocked.addSubnet('224.0.0.0', 4, 'ipv4'); // multicast
+blocked.addSubnet('240.0.0.0', 4, 'ipv4'); // reserved + broadcast
+
+// IPv6
+blocked.addAddress('::', 'ipv6'); // unspecified
+blocked.addAddress('::1', 'ipv6'); // loopback
+blocked.addSubnet('fc00::', 7, 'ipv6'); // unique local
+blocked.addSubnet('fe80::', 10, 'ipv6'); // link-local
+blocked.addSubnet('ff00::', 8, 'ipv6'); // multicast
+blocked.addSubnet('64:ff9b::', 96, 'ipv6'); // NAT64 (embeds any IPv4, including private ones)
+blocked.addSubnet('2002::', 16, 'ipv6'); // 6to4 (same)
+
+const IPV4_MAPPED_PREFIX = '::ffff:';
+
+/**
+ * True if the address is loopback, private, link-local or otherwise not publicly routable
+ */
+export function isPrivateAddress(address: string): boolean {
+  // IPv4-mapped IPv6 (::ffff:127.0.0.1) must be checked as the embedded IPv4 address
+  const lower = address.toLowerCase();
+  if (lower.startsWith(IPV4_MAPPED_PREFIX) && isIP(lower.slice(IPV4_MAPPED_PREFIX.length)) === 4) {
+    return isPrivateAddress(lower.slice(IPV4_MAPPED_PREFIX.length));
+  }
+
+  const family = isIP(address);
+  if (family === 0) {
+    return true; // Not an IP at all - refuse rather than guess
+  }
+
+  return blocked.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
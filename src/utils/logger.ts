@@ -1,5 +1,14 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { config } from '../config.js';
+
 type LogLevel = 'debug' | 'info' | 'warn' | 'error';
 
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+const configuredLevel = config.logLevel.toLowerCase();
+const minLevel: LogLevel =
+  (Object.keys(LEVEL_ORDER) as LogLevel[]).find(level => level === configuredLevel) ?? 'info';
+
 interface LogEntry {
   level: LogLevel;
   message: string;
@@ -7,13 +16,63 @@ interface LogEntry {
   data?: Record<string, unknown>;
 }
 
-function formatLog(entry: LogEntry): string {
+/**
+ * Who a log line is about. Set per request/job and carried through awaits, so every line
+ * (and ingest event) written while handling it can be told apart from concurrent ones.
+ */
+export interface LogContext {
+  // QStash message id when there is one, otherwise the job or request id
+  correlationId?: string;
+  messageId?: string;
+  jobId?: string;
+  cardId?: string;
+  sha256?: string;
+  source?: string;
+}
+
+const contextStorage = new AsyncLocalStorage<LogContext>();
+
+/**
+ * Run fn with a fresh log context; nothing is inherited from the caller's context
+ */
+export function runWithLogContext<T>(context: LogContext, fn: () => T): T {
+  return contextStorage.run({ ...context }, fn);
+}
+
+/**
+ * Add fields to the current context as they become known (e.g. sha256 after fetch)
+ */
+export function addLogContext(fields: LogContext): void {
+  const context = contextStorage.getStore();
+  if (context) {
+    Object.assign(context, fields);
+  }
+}
+
+export function getLogContext(): LogContext {
+  return contextStorage.getStore() ?? {};
+}
+
+function formatLog(entry: LogEntry, context: LogContext): string {
   const { level, message, timestamp, data } = entry;
-  const dataStr = data ? ` ${JSON.stringify(data)}` : '';
+
+  // Fixed fields are written again after the data, so a data key like `message` or `level`
+  // can't overwrite them; listing them first keeps them at the start of the line
+  if (config.logFormat === 'json') {
+    const fixed = { timestamp, level, message };
+    return JSON.stringify(Object.assign({ ...fixed }, context, data, fixed));
+  }
+
+  const fields = Object.keys(context).length > 0 || data ? { ...context, ...data } : undefined;
+  const dataStr = fields ? ` ${JSON.stringify(fields)}` : '';
   return `[${timestamp}] ${level.toUpperCase()}: ${message}${dataStr}`;
 }
 
 function log(level: LogLevel, message: string, data?: Record<string, unknown>): void {
+  if (LEVEL_ORDER[level] < LEVEL_ORDER[minLevel]) {
+    return;
+  }
+
   const entry: LogEntry = {
     level,
     message,
@@ -21,7 +80,7 @@ function log(level: LogLevel, message: string, data?: Record<string, unknown>):
     data,
   };
 
-  const formatted = formatLog(entry);
+  const formatted = formatLog(entry, getLogContext());
 
   switch (level) {
     case 'error':
@@ -41,3 +100,7 @@ export const logger = {
   warn: (message: string, data?: Record<string, unknown>) => log('warn', message, data),
   error: (message: string, data?: Record<string, unknown>) => log('error', message, data),
 };
+
+if (minLevel !== configuredLevel) {
+  logger.warn('Unknown LOG_LEVEL, using info', { logLevel: config.logLevel });
+}
@@ -0,0 +1,77 @@
+import { Attributes } from '@opentelemetry/api';
+import { collectDefaultMetrics, Counter, Gauge, Histogram, Registry } from 'prom-client';
+import { withSpan } from './tracing.js';
+
+export type TimedStage = 'fetch' | 'decode' | 'side' | 'vision' | 'derivatives' | 'upload';
+
+export const registry = new Registry();
+collectDefaultMetrics({ register: registry });
+
+export const metrics = {
+  jobs: new Counter({
+    name: 'image_jobs_total',
+    help: 'Processed image jobs by result status and source',
+    labelNames: ['status', 'source'] as const,
+    registers: [registry],
+  }),
+  jobsInFlight: new Gauge({
+    name: 'image_jobs_in_flight',
+    help: 'Image jobs currently inside processImage',
+    registers: [registry],
+  }),
+  queuedJobs: new Gauge({
+    name: 'image_queue_jobs',
+    help: 'Jobs held by the in-process queue, by state',
+    labelNames: ['state'] as const,
+    registers: [registry],
+  }),
+  stageDuration: new Histogram({
+    name: 'image_stage_duration_seconds',
+    help: 'Latency of pipeline stages',
+    labelNames: ['stage'] as const,
+    buckets: [0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+    registers: [registry],
+  }),
+  bytesFetched: new Counter({
+    name: 'image_bytes_fetched_total',
+    help: 'Image bytes downloaded from sources',
+    labelNames: ['source'] as const,
+    registers: [registry],
+  }),
+  bytesStored: new Counter({
+    name: 'image_bytes_stored_total',
+    help: 'Bytes written to storage, originals and derivatives',
+    labelNames: ['kind'] as const,
+    registers: [registry],
+  }),
+  visionCalls: new Counter({
+    name: 'image_vision_calls_total',
+    help: 'Vision checks by provider and outcome (ok, cached, invalid_response, failed, skipped_*)',
+    labelNames: ['provider', 'outcome'] as const,
+    registers: [registry],
+  }),
+  rateLimitDenials: new Counter({
+    name: 'image_rate_limit_denials_total',
+    help: 'Jobs held back by a source rate limit: our own token bucket, or a 429 from the source',
+    labelNames: ['source', 'reason'] as const,
+    registers: [registry],
+  }),
+  ingestEvents: new Counter({
+    name: 'image_ingest_events_total',
+    help: 'Rows written to image_ingest_events, by event type',
+    labelNames: ['event_type'] as const,
+    registers: [registry],
+  }),
+};
+
+/**
+ * Run a stage in its own span and record its latency, whether or not it throws
+ */
+export async function timeStage<T>(stage: TimedStage, fn: () => Promise<T>, attributes?: Attributes): Promise<T> {
+  const end = metrics.stageDuration.startTimer({ stage });
+  try {
+    return await withSpan(`pipeline.${stage}`, fn, attributes);
+  } finally {
+    end();
+  }
+}
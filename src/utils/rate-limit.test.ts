@@ -0,0 +1,72 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMemoryRateLimitStore, createRateLimiter } from './rate-limit.js';
+
+describe('createRateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('allows a full bucket of requests, then asks the caller to wait for the next token', async () => {
+    const limiter = createRateLimiter(createMemoryRateLimitStore());
+
+    for (let i = 0; i < 2; i++) {
+      expect(await limiter.tryAcquire('source', 2)).toEqual({ allowed: true, waitMs: 0 });
+    }
+    expect(await limiter.tryAcquire('source', 2)).toEqual({ allowed: false, waitMs: 500 });
+
+    vi.setSystemTime(500);
+    expect((await limiter.tryAcquire('source', 2)).allowed).toBe(true);
+  });
+
+  it('keeps a separate bucket per source', async () => {
+    const limiter = createRateLimiter(createMemoryRateLimitStore());
+
+    expect((await limiter.tryAcquire('a', 1)).allowed).toBe(true);
+    expect((await limiter.tryAcquire('a', 1)).allowed).toBe(false);
+    expect((await limiter.tryAcquire('b', 1)).allowed).toBe(true);
+  });
+
+  it('lets a source limited below one request per second through at that rate', async () => {
+    const limiter = createRateLimiter(createMemoryRateLimitStore());
+
+    expect((await limiter.tryAcquire('source', 0.5)).allowed).toBe(true);
+    expect(await limiter.tryAcquire('source', 0.5)).toEqual({ allowed: false, waitMs: 2000 });
+
+    vi.setSystemTime(2000);
+    expect((await limiter.tryAcquire('source', 0.5)).allowed).toBe(true);
+  });
+
+  it('never refills past one second of requests', async () => {
+    const limiter = createRateLimiter(createMemoryRateLimitStore());
+    await limiter.tryAcquire('source', 2);
+
+    vi.setSystemTime(60_000);
+    for (let i = 0; i < 2; i++) {
+      expect((await limiter.tryAcquire('source', 2)).allowed).toBe(true);
+    }
+    expect((await limiter.tryAcquire('source', 2)).allowed).toBe(false);
+  });
+
+  it('holds a deferred source until the deadline has passed', async () => {
+    const limiter = createRateLimiter(createMemoryRateLimitStore());
+    await limiter.deferUntil('source', 5000);
+
+    expect(await limiter.tryAcquire('source', 10)).toEqual({ allowed: false, waitMs: 5000 });
+
+    vi.setSystemTime(5000);
+    expect((await limiter.tryAcquire('source', 10)).allowed).toBe(true);
+  });
+
+  it('keeps the later deadline when deferred twice', async () => {
+    const limiter = createRateLimiter(createMemoryRateLimitStore());
+    await limiter.deferUntil('source', 5000);
+    await limiter.deferUntil('source', 1000);
+
+    expect((await limiter.tryAcquire('source', 10)).waitMs).toBe(5000);
+  });
+});
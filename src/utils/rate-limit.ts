@@ -1,64 +1,158 @@
-interface TokenBucket {
+import { config } from '../config.js';
+import { createPostgresRateLimitStore } from '../db/rate-limit-store.js';
+
+export interface BucketState {
   tokens: number;
-  lastRefill: number;
-  maxTokens: number;
-  refillRate: number; // tokens per second
+  lastRefill: number; // epoch ms
+  blockedUntil: number; // epoch ms, set from upstream Retry-After
 }
 
-const buckets = new Map<string, TokenBucket>();
-const CACHE_DURATION_MS = 60_000; // Cache rate limits for 60 seconds
+export interface VersionedBucket {
+  state: BucketState;
+  version: number;
+}
 
-export function initBucket(sourceId: string, maxRps: number): void {
-  buckets.set(sourceId, {
-    tokens: maxRps,
-    lastRefill: Date.now(),
-    maxTokens: maxRps,
-    refillRate: maxRps,
-  });
+/**
+ * Storage for token buckets. Writes are compare-and-set on a version number so
+ * several worker replicas can share one bucket without losing updates.
+ */
+export interface RateLimitStore {
+  get(key: string): Promise<VersionedBucket | null>;
+  // expectedVersion null means "create only if absent"
+  compareAndSet(key: string, expectedVersion: number | null, state: BucketState): Promise<boolean>;
 }
 
-export function tryAcquire(sourceId: string): boolean {
-  const bucket = buckets.get(sourceId);
-  if (!bucket) {
-    // No rate limit configured, allow
-    return true;
-  }
+export interface AcquireResult {
+  allowed: boolean;
+  waitMs: number;
+}
 
-  // Refill tokens based on time elapsed
-  const now = Date.now();
-  const elapsed = (now - bucket.lastRefill) / 1000;
-  const refill = Math.floor(elapsed * bucket.refillRate);
+export interface RateLimiter {
+  tryAcquire(sourceId: string, maxRps: number): Promise<AcquireResult>;
+  deferUntil(sourceId: string, until: number): Promise<void>;
+}
 
-  if (refill > 0) {
-    bucket.tokens = Math.min(bucket.maxTokens, bucket.tokens + refill);
-    bucket.lastRefill = now;
-  }
+const MAX_CAS_ATTEMPTS = 5;
+const CACHE_DURATION_MS = 60_000; // Drop idle in-memory buckets after 60 seconds
 
-  // Try to acquire a token
-  if (bucket.tokens > 0) {
-    bucket.tokens--;
-    return true;
-  }
+// A bucket always holds at least one token, so sources limited below 1 rps (e.g. 0.5) can still
+// fill up to a whole request instead of stalling just short of it
+function capacity(maxRps: number): number {
+  return Math.max(1, maxRps);
+}
 
-  return false;
+function refill(state: BucketState, maxRps: number, now: number): BucketState {
+  const elapsed = Math.max(0, now - state.lastRefill) / 1000;
+  return {
+    ...state,
+    tokens: Math.min(capacity(maxRps), state.tokens + elapsed * maxRps),
+    lastRefill: now,
+  };
 }
 
-export function getWaitTime(sourceId: string): number {
-  const bucket = buckets.get(sourceId);
-  if (!bucket || bucket.tokens > 0) {
-    return 0;
-  }
+/**
+ * In-memory store for single-replica runs (RATE_LIMIT_STORE=memory); buckets aren't shared between replicas
+ */
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const buckets = new Map<string, VersionedBucket>();
+
+  // Cleanup old buckets periodically
+  setInterval(() => {
+    const now = Date.now();
+    for (const [key, bucket] of buckets.entries()) {
+      if (now - bucket.state.lastRefill > CACHE_DURATION_MS && bucket.state.blockedUntil < now) {
+        buckets.delete(key);
+      }
+    }
+  }, CACHE_DURATION_MS).unref();
 
-  // Calculate time until next token
-  return Math.ceil(1000 / bucket.refillRate);
+  return {
+    async get(key) {
+      const bucket = buckets.get(key);
+      return bucket ? { state: { ...bucket.state }, version: bucket.version } : null;
+    },
+    async compareAndSet(key, expectedVersion, state) {
+      const current = buckets.get(key);
+      if ((current?.version ?? null) !== expectedVersion) {
+        return false;
+      }
+      buckets.set(key, { state: { ...state }, version: (expectedVersion ?? 0) + 1 });
+      return true;
+    },
+  };
 }
 
-// Cleanup old buckets periodically
-setInterval(() => {
-  const now = Date.now();
-  for (const [key, bucket] of buckets.entries()) {
-    if (now - bucket.lastRefill > CACHE_DURATION_MS) {
-      buckets.delete(key);
+/**
+ * Token bucket limiter that keeps bucket state between calls.
+ * Buckets start full and refill continuously at maxRps tokens per second; maxRps must be
+ * positive (sources with max_rps 0 are paused by the source policy before they get here).
+ */
+export function createRateLimiter(store: RateLimitStore): RateLimiter {
+  async function update(
+    key: string,
+    apply: (state: BucketState, now: number) => { state: BucketState; result: AcquireResult },
+    initial: (now: number) => BucketState
+  ): Promise<AcquireResult> {
+    for (let attempt = 0; attempt < MAX_CAS_ATTEMPTS; attempt++) {
+      const now = Date.now();
+      const current = await store.get(key);
+      const { state, result } = apply(current?.state ?? initial(now), now);
+
+      if (await store.compareAndSet(key, current?.version ?? null, state)) {
+        return result;
+      }
     }
+
+    // Heavy contention on the shared bucket - treat as throttled
+    return { allowed: false, waitMs: 1000 };
   }
-}, CACHE_DURATION_MS);
+
+  return {
+    tryAcquire(sourceId, maxRps) {
+      return update(
+        sourceId,
+        (state, now) => {
+          if (state.blockedUntil > now) {
+            return { state, result: { allowed: false, waitMs: state.blockedUntil - now } };
+          }
+
+          const refilled = refill(state, maxRps, now);
+          if (refilled.tokens >= 1) {
+            return {
+              state: { ...refilled, tokens: refilled.tokens - 1 },
+              result: { allowed: true, waitMs: 0 },
+            };
+          }
+
+          // Calculate time until next token
+          const waitMs = Math.ceil(((1 - refilled.tokens) / maxRps) * 1000);
+          return { state: refilled, result: { allowed: false, waitMs } };
+        },
+        now => ({ tokens: capacity(maxRps), lastRefill: now, blockedUntil: 0 })
+      );
+    },
+
+    async deferUntil(sourceId, until) {
+      await update(
+        sourceId,
+        state => ({
+          state: { ...state, tokens: 0, blockedUntil: Math.max(state.blockedUntil, until) },
+          result: { allowed: false, waitMs: 0 },
+        }),
+        now => ({ tokens: 0, lastRefill: now, blockedUntil: until })
+      );
+    },
+  };
+}
+
+let limiter: RateLimiter | null = null;
+
+export function getRateLimiter(): RateLimiter {
+  if (!limiter) {
+    const store = config.rateLimitStore === 'postgres'
+      ? createPostgresRateLimitStore()
+      : createMemoryRateLimitStore();
+    limiter = createRateLimiter(store);
+  }
+  return limiter;
+}
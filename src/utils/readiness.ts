@@ -0,0 +1,92 @@
+import sharp from 'sharp';
+import { config } from '../config.js';
+import { logger } from './logger.js';
+import { pingDatabase } from '../db/queries.js';
+import { getOriginalsStorage, getStorage } from '../storage/adapter.js';
+import { getVisionProvider } from '../vision/provider.js';
+
+export interface CheckResult {
+  ok: boolean;
+  latencyMs: number;
+  skipped?: boolean;
+  error?: string;
+}
+
+export interface ReadinessReport {
+  ready: boolean;
+  checks: Record<string, CheckResult>;
+}
+
+// Path that is never written; a lookup of it only proves the bucket can be listed
+const STORAGE_PROBE_PATH = 'readiness/probe';
+
+const checks: Record<string, () => Promise<void | 'skipped'>> = {
+  database: pingDatabase,
+
+  async storage() {
+    await getStorage().head(STORAGE_PROBE_PATH);
+  },
+
+  async originalsStorage() {
+    await getOriginalsStorage().head(STORAGE_PROBE_PATH);
+  },
+
+  // libvips loads lazily; make sure it can actually encode and decode
+  async sharp() {
+    const encoded = await sharp({
+      create: { width: 8, height: 8, channels: 3, background: { r: 255, g: 0, b: 0 } },
+    }).webp().toBuffer();
+
+    const { width, format } = await sharp(encoded).metadata();
+    if (width !== 8 || format !== 'webp') {
+      throw new Error(`Round trip returned ${format} ${width}px`);
+    }
+  },
+
+  async vision() {
+    if (!config.visionEnabled) {
+      return 'skipped';
+    }
+
+    const provider = getVisionProvider();
+    if (!provider.configured) {
+      throw new Error(`Vision is enabled but provider ${provider.name} is not configured`);
+    }
+  },
+};
+
+async function runCheck(name: string, check: () => Promise<void | 'skipped'>): Promise<CheckResult> {
+  const startedAt = Date.now();
+  let timer: NodeJS.Timeout | undefined;
+
+  try {
+    const outcome = await Promise.race([
+      check(),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`Timed out after ${config.readyCheckTimeoutMs}ms`)), config.readyCheckTimeoutMs);
+      }),
+    ]);
+
+    return { ok: true, latencyMs: Date.now() - startedAt, ...(outcome === 'skipped' ? { skipped: true } : {}) };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown';
+    logger.warn('Readiness check failed', { check: name, error: message });
+    return { ok: false, latencyMs: Date.now() - startedAt, error: message };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Run every dependency check in parallel; ready only when all pass
+ */
+export async function checkReadiness(): Promise<ReadinessReport> {
+  const results = await Promise.all(
+    Object.entries(checks).map(async ([name, check]) => [name, await runCheck(name, check)] as const)
+  );
+
+  return {
+    ready: results.every(([, result]) => result.ok),
+    checks: Object.fromEntries(results),
+  };
+}
@@ -0,0 +1,93 @@
+export type SniffedFormat = 'jpeg' | 'png' | 'webp' | 'gif' | 'avif' | 'heic' | 'tiff';
+
+export interface SniffedType {
+  format: SniffedFormat;
+  mime: string;
+}
+
+const MIME_TYPES: Record<SniffedFormat, string> = {
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  gif: 'image/gif',
+  avif: 'image/avif',
+  heic: 'image/heic',
+  tiff: 'image/tiff',
+};
+
+const AVIF_BRANDS = ['avif', 'avis'];
+const HEIC_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1'];
+
+function ascii(bytes: Buffer, start: number, end: number): string {
+  return bytes.toString('latin1', start, end);
+}
+
+/**
+ * Read the ISO-BMFF ftyp box (major + compatible brands) used by AVIF and HEIC
+ */
+function ftypBrands(bytes: Buffer): string[] {
+  if (bytes.length < 16 || ascii(bytes, 4, 8) !== 'ftyp') return [];
+
+  const boxSize = Math.min(bytes.readUInt32BE(0), bytes.length);
+  const brands = [ascii(bytes, 8, 12)];
+
+  // Skip minor_version (bytes 12-16), then 4-byte compatible brands
+  for (let offset = 16; offset + 4 <= boxSize; offset += 4) {
+    brands.push(ascii(bytes, offset, offset + 4));
+  }
+
+  return brands;
+}
+
+/**
+ * Detect the image format from its magic bytes, ignoring any declared Content-Type
+ */
+export function sniffImageType(bytes: Buffer): SniffedType | null {
+  const format = sniffFormat(bytes);
+  return format ? { format, mime: MIME_TYPES[format] } : null;
+}
+
+function sniffFormat(bytes: Buffer): SniffedFormat | null {
+  if (bytes.length < 12) return null;
+
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) {
+    return 'jpeg';
+  }
+
+  if (bytes.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return 'png';
+  }
+
+  if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 12) === 'WEBP') {
+    return 'webp';
+  }
+
+  const gifHeader = ascii(bytes, 0, 6);
+  if (gifHeader === 'GIF87a' || gifHeader === 'GIF89a') {
+    return 'gif';
+  }
+
+  const tiffHeader = ascii(bytes, 0, 4);
+  if (tiffHeader === 'II*\0' || tiffHeader === 'MM\0*') {
+    return 'tiff';
+  }
+
+  const brands = ftypBrands(bytes);
+  // mif1 is shared by both, so check AVIF brands first
+  if (brands.some(brand => AVIF_BRANDS.includes(brand))) {
+    return 'avif';
+  }
+  if (brands.some(brand => HEIC_BRANDS.includes(brand))) {
+    return 'heic';
+  }
+
+  return null;
+}
+
+/**
+ * Normalise a Content-Type header to a bare lowercase mime type
+ */
+export function normalizeContentType(header: string): string {
+  const mime = header.split(';')[0].trim().toLowerCase();
+  return mime === 'image/jpg' ? 'image/jpeg' : mime;
+}
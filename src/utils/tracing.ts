@@ -0,0 +1,136 @@
+import { appendFile, mkdir } from 'fs/promises';
+import { dirname } from 'path';
+import {
+  Attributes,
+  context,
+  Context,
+  propagation,
+  ROOT_CONTEXT,
+  Span,
+  SpanStatusCode,
+  trace,
+} from '@opentelemetry/api';
+import { ExportResultCode, hrTimeToMilliseconds } from '@opentelemetry/core';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { Resource } from '@opentelemetry/resources';
+import {
+  BatchSpanProcessor,
+  ConsoleSpanExporter,
+  ReadableSpan,
+  SimpleSpanProcessor,
+  SpanExporter,
+  SpanProcessor,
+} from '@opentelemetry/sdk-trace-base';
+import { NodeTracerProvider } from '@opentelemetry/sdk-trace-node';
+import { ATTR_SERVICE_NAME } from '@opentelemetry/semantic-conventions';
+import { config } from '../config.js';
+import { logger } from './logger.js';
+
+/** W3C trace context headers (traceparent, tracestate) */
+export type TraceCarrier = Record<string, string>;
+
+const tracer = trace.getTracer('image-worker');
+
+/**
+ * Writes finished spans as JSON lines, for local runs without a collector
+ */
+function createFileSpanExporter(path: string): SpanExporter {
+  let ready: Promise<unknown> | null = null;
+
+  return {
+    export(spans: ReadableSpan[], resultCallback) {
+      const lines = spans.map(span => JSON.stringify({
+        traceId: span.spanContext().traceId,
+        spanId: span.spanContext().spanId,
+        parentSpanId: span.parentSpanId,
+        name: span.name,
+        startTime: new Date(hrTimeToMilliseconds(span.startTime)).toISOString(),
+        durationMs: Math.round(hrTimeToMilliseconds(span.duration) * 1000) / 1000,
+        status: span.status,
+        attributes: span.attributes,
+        events: span.events.map(event => ({ name: event.name, attributes: event.attributes })),
+      }));
+
+      ready ??= mkdir(dirname(path), { recursive: true });
+      ready
+        .then(() => appendFile(path, lines.join('\n') + '\n'))
+        .then(
+          () => resultCallback({ code: ExportResultCode.SUCCESS }),
+          error => resultCallback({ code: ExportResultCode.FAILED, error })
+        );
+    },
+    async shutdown() {},
+  };
+}
+
+function createSpanProcessor(): SpanProcessor | null {
+  switch (config.traceExporter) {
+    case 'otlp':
+      return new BatchSpanProcessor(new OTLPTraceExporter({ url: config.otlpTracesEndpoint }));
+    case 'console':
+      return new SimpleSpanProcessor(new ConsoleSpanExporter());
+    case 'file':
+      return new BatchSpanProcessor(createFileSpanExporter(config.traceFile));
+    default:
+      return null;
+  }
+}
+
+/**
+ * Register the tracer provider. With TRACE_EXPORTER=none tracing stays off and spans are no-ops.
+ */
+export function initTracing(): void {
+  const processor = createSpanProcessor();
+  if (!processor) {
+    return;
+  }
+
+  const provider = new NodeTracerProvider({
+    resource: new Resource({ [ATTR_SERVICE_NAME]: config.serviceName }),
+    spanProcessors: [processor],
+  });
+  provider.register();
+
+  logger.info('Tracing enabled', { exporter: config.traceExporter, serviceName: config.serviceName });
+}
+
+/**
+ * Run fn in a child span of the active one. Errors are recorded on the span and rethrown.
+ */
+export async function withSpan<T>(
+  name: string,
+  fn: (span: Span) => Promise<T>,
+  attributes?: Attributes
+): Promise<T> {
+  return tracer.startActiveSpan(name, { attributes }, async span => {
+    try {
+      return await fn(span);
+    } catch (error) {
+      span.recordException(error instanceof Error ? error : String(error));
+      span.setStatus({ code: SpanStatusCode.ERROR, message: error instanceof Error ? error.message : 'Unknown' });
+      throw error;
+    } finally {
+      span.end();
+    }
+  });
+}
+
+/**
+ * Trace context of the active span, to hand to work that runs later (queued jobs)
+ */
+export function captureTraceContext(): TraceCarrier {
+  const carrier: TraceCarrier = {};
+  propagation.inject(context.active(), carrier);
+  return carrier;
+}
+
+/**
+ * Context from incoming headers or a captured carrier; a new trace starts when there is none
+ */
+export function extractTraceContext(carrier: Record<string, unknown> | undefined): Context {
+  return carrier ? propagation.extract(ROOT_CONTEXT, carrier) : ROOT_CONTEXT;
+}
+
+export function runInTraceContext<T>(traceContext: Context, fn: () => T): T {
+  return context.with(traceContext, fn);
+}
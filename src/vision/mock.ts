@@ -0,0 +1,41 @@
+import { VisionAnalysis } from '../types.js';
+import { VisionProvider } from './provider.js';
+
+const DEFAULT_ANALYSIS: VisionAnalysis = {
+  side: 'front',
+  identityMatch: 'unsure',
+  language: 'en',
+  conditionNotes: [],
+  confidence: 0.9,
+};
+
+/**
+ * Deterministic stand-in for tests and offline runs: answers by image sha256, else a fixed default
+ */
+export function createMockVisionProvider(options: {
+  fallback?: VisionAnalysis;
+  bySha256?: Record<string, VisionAnalysis>;
+} = {}): VisionProvider {
+  return {
+    name: 'mock',
+    model: 'mock',
+    configured: true,
+
+    async analyze({ imageSha256 }) {
+      const analysis = options.bySha256?.[imageSha256] ?? options.fallback ?? DEFAULT_ANALYSIS;
+
+      // Answer in the wire format a real model returns
+      return {
+        content: {
+          side: analysis.side,
+          identity_match: analysis.identityMatch,
+          language: analysis.language,
+          condition_notes: analysis.conditionNotes,
+          confidence: analysis.confidence,
+        },
+        model: 'mock',
+        costUsd: 0,
+      };
+    },
+  };
+}
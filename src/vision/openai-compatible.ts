@@ -0,0 +1,114 @@
+import { config } from '../config.js';
+import { VisionProvider, VisionProviderError } from './provider.js';
+
+interface ChatCompletionResponse {
+  model?: string;
+  choices: Array<{
+    message: {
+      content: string | null;
+    };
+  }>;
+  usage?: {
+    cost?: number;
+  };
+}
+
+export interface ChatCompletionsOptions {
+  name: string;
+  baseUrl: string;
+  apiKey: string;
+  model: string;
+  headers?: Record<string, string>;
+  // Extra top-level body fields a particular API understands
+  body?: Record<string, unknown>;
+}
+
+/**
+ * Vision over an OpenAI-style /chat/completions endpoint with json_schema structured output
+ */
+export function createChatCompletionsProvider(options: ChatCompletionsOptions): VisionProvider {
+  const endpoint = `${options.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  return {
+    name: options.name,
+    model: options.model,
+    configured: Boolean(options.baseUrl && options.model),
+
+    async analyze({ image, mimeType, prompt, schema, signal }) {
+      let response: Response;
+      try {
+        response = await fetch(endpoint, {
+          method: 'POST',
+          signal,
+          headers: {
+            'Content-Type': 'application/json',
+            ...(options.apiKey ? { 'Authorization': `Bearer ${options.apiKey}` } : {}),
+            ...options.headers,
+          },
+          body: JSON.stringify({
+            model: options.model,
+            messages: [
+              {
+                role: 'user',
+                content: [
+                  { type: 'text', text: prompt },
+                  { type: 'image_url', image_url: { url: `data:${mimeType};base64,${image.toString('base64')}` } },
+                ],
+              },
+            ],
+            response_format: {
+              type: 'json_schema',
+              json_schema: { name: schema.name, strict: true, schema: schema.schema },
+            },
+            max_tokens: 300,
+            temperature: 0,
+            ...options.body,
+          }),
+        });
+      } catch (error) {
+        // Aborts (our timeout) and connection failures are both worth another try
+        const message = error instanceof Error ? error.message : 'Unknown';
+        throw new VisionProviderError(`${options.name} request failed: ${message}`, true);
+      }
+
+      if (!response.ok) {
+        const errorText = await response.text().catch(() => '');
+        const retryable = response.status === 429 || response.status >= 500;
+        throw new VisionProviderError(
+          `${options.name} returned ${response.status}: ${errorText.slice(0, 200)}`,
+          retryable,
+          response.status
+        );
+      }
+
+      const data = (await response.json()) as ChatCompletionResponse;
+      const text = data.choices[0]?.message?.content ?? '';
+
+      let content: unknown;
+      try {
+        // Some servers wrap JSON in a code fence even in structured-output mode
+        content = JSON.parse(text.replace(/^```(?:json)?\s*|\s*```$/g, ''));
+      } catch {
+        throw new VisionProviderError(`${options.name} returned non-JSON content: ${text.slice(0, 200)}`, false);
+      }
+
+      return {
+        content,
+        model: data.model ?? options.model,
+        costUsd: typeof data.usage?.cost === 'number' ? data.usage.cost : null,
+      };
+    },
+  };
+}
+
+/**
+ * Self-hosted OpenAI-compatible server (llama.cpp, vLLM, Ollama, LM Studio)
+ */
+export function createOpenAICompatibleProvider(): VisionProvider {
+  return createChatCompletionsProvider({
+    name: 'openai',
+    baseUrl: config.visionBaseUrl,
+    apiKey: config.visionApiKey,
+    model: config.visionModel,
+  });
+}
@@ -0,0 +1,22 @@
+import { config } from '../config.js';
+import { VisionProvider } from './provider.js';
+import { createChatCompletionsProvider } from './openai-compatible.js';
+
+/**
+ * OpenRouter, which reports the cost of each call when usage accounting is requested
+ */
+export function createOpenRouterProvider(): VisionProvider {
+  const provider = createChatCompletionsProvider({
+    name: 'openrouter',
+    baseUrl: 'https://openrouter.ai/api/v1',
+    apiKey: config.openrouterApiKey,
+    model: config.visionModel,
+    headers: {
+      'HTTP-Referer': 'https://bourdain.io',
+      'X-Title': 'Bourdain Image Worker',
+    },
+    body: { usage: { include: true } },
+  });
+
+  return { ...provider, configured: Boolean(config.openrouterApiKey) };
+}
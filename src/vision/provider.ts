@@ -0,0 +1,64 @@
+import { config } from '../config.js';
+import { createOpenRouterProvider } from './openrouter.js';
+import { createOpenAICompatibleProvider } from './openai-compatible.js';
+import { createMockVisionProvider } from './mock.js';
+
+export interface VisionRequest {
+  image: Buffer;
+  // Hash of the image before it was downscaled for the model
+  imageSha256: string;
+  mimeType: string;
+  prompt: string;
+  // JSON schema the answer must follow
+  schema: { name: string; schema: Record<string, unknown> };
+  signal: AbortSignal;
+}
+
+export interface VisionResponse {
+  // Parsed JSON answer, not yet validated against the schema
+  content: unknown;
+  model: string;
+  // Cost the provider reported for the call, null when it doesn't report one
+  costUsd: number | null;
+}
+
+/**
+ * A vision model behind some API. Providers only transport the request; prompting,
+ * validation, retries and spend limits live in pipeline/vision.ts.
+ */
+export interface VisionProvider {
+  name: string;
+  // Model requested from the provider; part of the vision cache key
+  model: string;
+  // False when required credentials/settings are missing, so calls are skipped
+  configured: boolean;
+  analyze(request: VisionRequest): Promise<VisionResponse>;
+}
+
+/**
+ * Provider failure; `retryable` marks transient ones (timeouts, 429, 5xx, network)
+ */
+export class VisionProviderError extends Error {
+  constructor(message: string, readonly retryable: boolean, readonly status?: number) {
+    super(message);
+    this.name = 'VisionProviderError';
+  }
+}
+
+let provider: VisionProvider | null = null;
+
+export function getVisionProvider(): VisionProvider {
+  if (!provider) {
+    switch (config.visionProvider) {
+      case 'openai':
+        provider = createOpenAICompatibleProvider();
+        break;
+      case 'mock':
+        provider = createMockVisionProvider();
+        break;
+      default:
+        provider = createOpenRouterProvider();
+    }
+  }
+  return provider;
+}
@@ -0,0 +1,71 @@
+import { ImageJob, VisionAnalysis } from '../types.js';
+
+// Bump whenever the prompt or schema changes in a way that changes answers
+export const VISION_PROMPT_VERSION = 'v2';
+
+export const VISION_RESPONSE_SCHEMA = {
+  name: 'card_image_analysis',
+  schema: {
+    type: 'object',
+    additionalProperties: false,
+    required: ['side', 'identity_match', 'language', 'condition_notes', 'confidence'],
+    properties: {
+      side: { type: 'string', enum: ['front', 'back', 'unknown'] },
+      identity_match: { type: 'string', enum: ['match', 'mismatch', 'unsure'] },
+      language: { type: ['string', 'null'], description: 'ISO 639-1 code of the printed language' },
+      condition_notes: { type: 'array', items: { type: 'string' } },
+      confidence: { type: 'number', minimum: 0, maximum: 1 },
+    },
+  },
+};
+
+export function buildVisionPrompt(job: ImageJob): string {
+  const lines = [
+    'You are checking a photo or scan of a single Pokémon trading card.',
+    'side: "front" if the card face (name, artwork, attacks) is shown, "back" if the Poké Ball back design is shown, "unknown" if it is not a single card or you cannot tell.',
+  ];
+
+  if (job.cardNumber || job.setCode) {
+    const identity = [job.cardNumber && `collector number ${job.cardNumber}`, job.setCode && `set ${job.setCode}`]
+      .filter(Boolean)
+      .join(' from ');
+    lines.push(`identity_match: "match" if this is ${identity}, "mismatch" if it is clearly a different card, "unsure" otherwise.`);
+  } else {
+    lines.push('identity_match: always "unsure".');
+  }
+
+  lines.push(
+    'language: ISO 639-1 code of the text printed on the card, or null if there is none legible.',
+    'condition_notes: short notes on visible wear, damage, sleeves, glare or watermarks; empty if none.',
+    'confidence: your confidence in the side answer, from 0 to 1.',
+    'Respond with JSON only.'
+  );
+
+  return lines.join('\n');
+}
+
+/**
+ * Check a model answer against the schema; returns null when it doesn't conform
+ */
+export function parseVisionAnalysis(content: unknown): VisionAnalysis | null {
+  if (!content || typeof content !== 'object') return null;
+  const value = content as Record<string, unknown>;
+
+  const side = value.side;
+  const identityMatch = value.identity_match;
+  const confidence = value.confidence;
+
+  if (side !== 'front' && side !== 'back' && side !== 'unknown') return null;
+  if (identityMatch !== 'match' && identityMatch !== 'mismatch' && identityMatch !== 'unsure') return null;
+  if (typeof confidence !== 'number' || Number.isNaN(confidence)) return null;
+
+  return {
+    side,
+    identityMatch,
+    language: typeof value.language === 'string' ? value.language.toLowerCase() : null,
+    conditionNotes: Array.isArray(value.condition_notes)
+      ? value.condition_notes.filter((note): note is string => typeof note === 'string')
+      : [],
+    confidence: Math.max(0, Math.min(1, confidence)),
+  };
+}
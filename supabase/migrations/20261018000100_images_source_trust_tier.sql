@@ -0,0 +1,3 @@
+-- Trust tier of the source an image was fetched from, copied at ingest so near-duplicate
+-- comparisons and the review queue don't have to join image_sources.
+alter table images add column if not exists source_trust_tier integer;
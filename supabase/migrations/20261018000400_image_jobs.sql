@@ -0,0 +1,27 @@
+-- Durable job records for the supabase job store (src/db/jobs.ts). A worker holds a job while
+-- lease_owner/lease_expires_at are its own; attempts counts claims, so a stale claim cannot win.
+create table if not exists image_jobs (
+  id uuid primary key,
+  status text not null check (status in ('queued', 'running', 'completed', 'failed')),
+  stage text,
+  payload jsonb not null,
+  message_id text,
+  idempotency_key text,
+  result jsonb,
+  attempts integer not null default 0,
+  lease_owner text,
+  lease_expires_at timestamptz,
+  created_at timestamptz not null default now(),
+  started_at timestamptz,
+  finished_at timestamptz
+);
+
+-- insertJob maps a violation of this index to DuplicateJobError
+create unique index if not exists image_jobs_idempotency_key_idx
+  on image_jobs (idempotency_key)
+  where idempotency_key is not null;
+
+-- listUnfinishedJobs: queued/running jobs in creation order
+create index if not exists image_jobs_unfinished_idx
+  on image_jobs (created_at)
+  where status in ('queued', 'running');
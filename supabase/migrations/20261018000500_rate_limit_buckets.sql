@@ -0,0 +1,9 @@
+-- Token buckets shared by all replicas when RATE_LIMIT_STORE=postgres (src/db/rate-limit-store.ts).
+-- Times are epoch milliseconds; every write bumps version and is conditional on the version read.
+create table if not exists rate_limit_buckets (
+  key text primary key,
+  tokens double precision not null,
+  last_refill bigint not null,
+  blocked_until bigint not null default 0,
+  version integer not null default 1
+);
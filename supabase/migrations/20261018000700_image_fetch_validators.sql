@@ -0,0 +1,10 @@
+-- Conditional-request validators per source URL, and the image they produced, so a refetch can
+-- send If-None-Match / If-Modified-Since and reuse the stored image on 304.
+create table if not exists image_fetch_validators (
+  source_url text primary key,
+  etag text,
+  last_modified text,
+  sha256 text,
+  card_id uuid,
+  updated_at timestamptz not null default now()
+);
@@ -0,0 +1,3 @@
+-- Card quadrilateral the derivatives were cropped from (CardQuad: corners, boundingBox, rotation,
+-- coverage in auto-oriented original pixels), null when they use the whole image.
+alter table images add column if not exists crop_region jsonb;
@@ -0,0 +1,7 @@
+-- Collage regions are stored as images of their own, linked both ways to the collage
+alter table images add column if not exists parent_image_id uuid references images (id) on delete set null;
+alter table images add column if not exists child_image_ids uuid[];
+
+create index if not exists images_parent_image_id_idx
+  on images (parent_image_id)
+  where parent_image_id is not null;
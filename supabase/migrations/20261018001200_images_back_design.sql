@@ -0,0 +1,2 @@
+-- Back design recognised on card backs ('international' or 'japanese'), null for fronts
+alter table images add column if not exists back_design text;
@@ -0,0 +1,2 @@
+-- Sharpness measured at ingest (variance of the Laplacian), used to rank images for a card role
+alter table images add column if not exists sharpness double precision;
@@ -0,0 +1,2 @@
+-- Quality measured at ingest (ImageQuality: sharpness, blockiness, glareRatio, overlayScore)
+alter table images add column if not exists quality jsonb;
@@ -0,0 +1,15 @@
+-- Vision answers cached per image bytes, prompt version and model (src/pipeline/vision.ts), so
+-- reprocessing the same image doesn't pay for the call again. identity_target is the
+-- cardNumber|setCode the identity answer refers to.
+create table if not exists vision_results (
+  sha256 text not null,
+  prompt_version text not null,
+  provider text not null,
+  model text not null,
+  identity_target text,
+  analysis jsonb not null,
+  cost_usd numeric,
+  latency_ms integer,
+  created_at timestamptz not null default now(),
+  primary key (sha256, prompt_version, provider, model)
+);
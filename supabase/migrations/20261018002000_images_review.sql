@@ -0,0 +1,8 @@
+-- Manual review queue: images held back from assignment wait as 'pending' for review_card_id,
+-- until a reviewer approves or rejects them.
+alter table images add column if not exists review_status text
+  check (review_status in ('pending', 'approved', 'rejected'));
+alter table images add column if not exists review_card_id uuid;
+alter table images add column if not exists review_reason text;
+alter table images add column if not exists reviewed_by text;
+alter table images add column if not exists reviewed_at timestamptz;
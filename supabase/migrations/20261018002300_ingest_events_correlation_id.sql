@@ -0,0 +1,6 @@
+-- Correlation id of the request or job that logged the event, to join events with logs
+alter table image_ingest_events add column if not exists correlation_id text;
+
+create index if not exists image_ingest_events_correlation_id_idx
+  on image_ingest_events (correlation_id)
+  where correlation_id is not null;
@@ -0,0 +1,45 @@
+-- Near-duplicate lookup used by findImagesByPhash (src/db/queries.ts).
+-- Only compares against images already linked to the card - assigned to it, or waiting in
+-- review for it - with the same detected side, so identical back designs or a look-alike
+-- card are never reused for the wrong card. Closest hash first.
+create or replace function find_images_by_phash(
+  p_phash text,
+  p_max_distance integer,
+  p_card_id uuid,
+  p_side text
+)
+returns table (
+  id uuid,
+  phash text,
+  distance integer,
+  original_width integer,
+  original_height integer,
+  source_trust_tier integer
+)
+language sql
+stable
+as $$
+  select *
+  from (
+    select
+      i.id,
+      i.phash,
+      bit_count(('x' || i.phash)::bit(64) # ('x' || p_phash)::bit(64))::integer as distance,
+      i.original_width,
+      i.original_height,
+      i.source_trust_tier
+    from images i
+    where i.phash is not null
+      and i.is_collage = false
+      and i.detected_side = p_side
+      and (
+        i.review_card_id = p_card_id
+        or exists (
+          select 1 from card_images ci
+          where ci.image_id = i.id and ci.card_id = p_card_id
+        )
+      )
+  ) candidates
+  where candidates.distance <= p_max_distance
+  order by candidates.distance, candidates.id;
+$$;
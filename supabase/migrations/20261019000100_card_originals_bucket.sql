@@ -0,0 +1,5 @@
+-- Private bucket for originals (ORIGINALS_BUCKET). Derivatives stay in the public card-images
+-- bucket; originals are only read back by the worker, with the service key.
+insert into storage.buckets (id, name, public)
+values ('card-originals', 'card-originals', false)
+on conflict (id) do update set public = false;
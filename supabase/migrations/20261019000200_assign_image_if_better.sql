@@ -0,0 +1,47 @@
+-- Score of the image filling each card role, so a replacement can be decided in one statement.
+alter table card_images add column if not exists score numeric;
+
+-- Compare-and-replace for assignIfBetter (src/db/queries.ts assignImageIfBetter).
+-- The candidate replaces the current image only when its score is higher than the stored one
+-- (or p_force). Rows assigned before scores were stored have a null score: they are compared with
+-- p_current_score, but only while they still hold p_current_image_id - the image that score was
+-- computed for. Returns whether the candidate was assigned and what holds the role afterwards.
+create or replace function assign_image_if_better(
+  p_card_id uuid,
+  p_role text,
+  p_image_id uuid,
+  p_score numeric,
+  p_source_id uuid default null,
+  p_source_url text default null,
+  p_force boolean default false,
+  p_current_image_id uuid default null,
+  p_current_score numeric default null
+)
+returns table (assigned boolean, current_image_id uuid, current_score numeric)
+language plpgsql
+as $$
+begin
+  insert into card_images as ci (card_id, role, image_id, score, source_id, source_url, assigned_at)
+  values (p_card_id, p_role, p_image_id, p_score, p_source_id, p_source_url, now())
+  on conflict (card_id, role) do update
+    set image_id = excluded.image_id,
+        score = excluded.score,
+        source_id = excluded.source_id,
+        source_url = excluded.source_url,
+        assigned_at = excluded.assigned_at
+    where p_force
+      or excluded.score > coalesce(
+        ci.score,
+        case when ci.image_id = p_current_image_id then p_current_score end
+      );
+
+  if found then
+    return query select true, p_image_id, p_score;
+  else
+    return query
+      select false, ci.image_id, ci.score
+      from card_images ci
+      where ci.card_id = p_card_id and ci.role = p_role;
+  end if;
+end;
+$$;
@@ -0,0 +1,37 @@
+-- Put images that were stored but never assigned, from before the review queue existed, into it.
+-- The card and reason come from the image's last 'rejected' ingest event.
+update images i
+set review_status = 'pending',
+    review_card_id = e.card_id,
+    review_reason = case when e.message like 'quality:%' then 'low_quality' else 'low_confidence' end
+from (
+  select distinct on (image_id) image_id, card_id, message
+  from image_ingest_events
+  where event_type = 'rejected' and image_id is not null and card_id is not null
+  order by image_id, created_at desc
+) e
+where i.id = e.image_id
+  and i.review_status is null
+  and i.is_collage = false
+  and not exists (select 1 from card_images ci where ci.image_id = i.id);
+
+-- Regions of rejected collages: the rejection was logged against the parent
+update images i
+set review_status = 'pending',
+    review_card_id = e.card_id,
+    review_reason = 'low_confidence'
+from (
+  select distinct on (image_id) image_id, card_id
+  from image_ingest_events
+  where event_type = 'rejected' and image_id is not null and card_id is not null
+  order by image_id, created_at desc
+) e
+where i.parent_image_id = e.image_id
+  and i.review_status is null
+  and i.detected_side <> 'back'
+  and not exists (select 1 from card_images ci where ci.image_id = i.id);
+
+-- Keyset paging for GET /review: (created_at, id) over pending images
+create index if not exists images_review_pending_idx
+  on images (created_at, id)
+  where review_status = 'pending';